@@ -0,0 +1,143 @@
+/**
+ * Shows where coding time goes, from the session journal
+ *
+ * - Opening a project starts a journal entry; stopping its session or opening another project ends it
+ * - Time is totalled per project for each of the last days or weeks
+ * - The journal can be exported to CSV or JSON in the Downloads folder
+ */
+
+import { Action, ActionPanel, Icon, List, showInFinder, showToast, Toast } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { useState } from "react";
+import { formatDuration, getJournal, getTimePerProject, journalToCsv, journalToJson } from "./utils/journal";
+
+type StatsPeriod = "day" | "week";
+
+interface PeriodRange {
+  title: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Number of days or weeks listed, most recent first
+ */
+const PERIOD_COUNTS: Record<StatsPeriod, number> = { day: 7, week: 8 };
+
+/**
+ * The last days (from midnight) or weeks (from Monday) up to now
+ */
+const getPeriodRanges = (period: StatsPeriod, now: number): PeriodRange[] => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  return Array.from({ length: PERIOD_COUNTS[period] }, (_, index) => {
+    const start = new Date(startOfToday);
+    if (period === "day") {
+      start.setDate(start.getDate() - index);
+    } else {
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - index * 7);
+    }
+    const end = new Date(start);
+    end.setDate(end.getDate() + (period === "day" ? 1 : 7)); // Date arithmetic keeps DST days right
+
+    const recentTitles = period === "day" ? ["Today", "Yesterday"] : ["This Week", "Last Week"];
+    const title =
+      recentTitles[index] ??
+      (period === "day"
+        ? start.toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" })
+        : `Week of ${start.toLocaleDateString(undefined, { month: "short", day: "numeric" })}`);
+
+    return { title, from: start.getTime(), to: end.getTime() };
+  });
+};
+
+export default function Command() {
+  const [period, setPeriod] = useState<StatsPeriod>("day");
+  const { data: journal = [], isLoading, revalidate } = useCachedPromise(getJournal);
+
+  const now = Date.now();
+  const sections = getPeriodRanges(period, now)
+    .map((range) => ({ range, projects: getTimePerProject(journal, range.from, range.to, now) }))
+    .filter(({ projects }) => projects.length > 0);
+
+  const exportJournal = async (format: "csv" | "json") => {
+    const date = new Date(now).toISOString().slice(0, 10);
+    const exportPath = join(homedir(), "Downloads", `coding-journal-${date}.${format}`);
+
+    try {
+      await writeFile(exportPath, format === "csv" ? journalToCsv(journal, now) : journalToJson(journal, now));
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Journal exported",
+        message: exportPath,
+        primaryAction: { title: "Show in Finder", onAction: () => showInFinder(exportPath) },
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to export journal",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  };
+
+  const actions = (
+    <>
+      <Action title="Export as Spreadsheet" icon={Icon.Download} onAction={() => exportJournal("csv")} />
+      <Action title="Export as JSON" icon={Icon.Download} onAction={() => exportJournal("json")} />
+      <Action
+        title="Refresh"
+        icon={Icon.ArrowClockwise}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+        onAction={revalidate}
+      />
+    </>
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search projects..."
+      searchBarAccessory={
+        <List.Dropdown tooltip="Group By" value={period} onChange={(value) => setPeriod(value as StatsPeriod)}>
+          <List.Dropdown.Item title="Per Day" value="day" />
+          <List.Dropdown.Item title="Per Week" value="week" />
+        </List.Dropdown>
+      }
+    >
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No coding time yet"
+        description="Time is tracked from opening a project until its session is stopped or another project is opened"
+        actions={journal.length > 0 ? <ActionPanel>{actions}</ActionPanel> : undefined}
+      />
+      {sections.map(({ range, projects }) => (
+        <List.Section
+          key={range.from}
+          title={range.title}
+          subtitle={formatDuration(projects.reduce((total, { duration }) => total + duration, 0))}
+        >
+          {projects.map((project) => (
+            <List.Item
+              key={project.projectPath}
+              icon={Icon.Clock}
+              title={project.projectName}
+              subtitle={project.projectPath}
+              accessories={[{ text: formatDuration(project.duration) }]}
+              actions={
+                <ActionPanel>
+                  {actions}
+                  <Action.ShowInFinder title="Open in Finder" path={project.projectPath} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
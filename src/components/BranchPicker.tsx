@@ -0,0 +1,62 @@
+import { Action, ActionPanel, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { Project } from "../types";
+import { GitStatus, listLocalBranches, switchBranch } from "../utils/git";
+
+/**
+ * Lists the local branches of a project's repository so one can be checked out
+ */
+export function BranchPicker({
+  project,
+  gitStatus,
+  onSwitched,
+}: {
+  project: Project;
+  gitStatus: GitStatus;
+  onSwitched: () => void;
+}) {
+  const { data: branches = [], isLoading } = usePromise(listLocalBranches, [project.path]);
+  const { pop } = useNavigation();
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Branches • ${project.name}`}
+      searchBarPlaceholder="Filter branches..."
+    >
+      {branches.map((branch) => (
+        <List.Item
+          key={branch}
+          icon={Icon.Switch}
+          title={branch}
+          accessories={branch === gitStatus.branch ? [{ icon: Icon.Checkmark, text: "current" }] : []}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Switch to Branch"
+                icon={Icon.Switch}
+                onAction={async () => {
+                  const toast = await showToast({ style: Toast.Style.Animated, title: `Switching to ${branch}...` });
+
+                  try {
+                    await switchBranch(project.path, branch);
+
+                    toast.style = Toast.Style.Success;
+                    toast.title = `Switched to ${branch}`;
+                    onSwitched();
+                    pop();
+                  } catch (error) {
+                    toast.style = Toast.Style.Failure;
+                    toast.title = "Failed to switch branch";
+                    toast.message = error instanceof Error ? error.message : "Unknown error occurred";
+                  }
+                }}
+              />
+              <Action.CopyToClipboard title="Copy Branch Name" content={branch} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,134 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  getPreferenceValues,
+  Icon,
+  openExtensionPreferences,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { FormValidation, useForm, usePromise } from "@raycast/utils";
+import { Preferences } from "../types";
+import { PROJECT_KINDS } from "../utils/project-kinds";
+import { scanProjectAtPath } from "../utils/scanner";
+import { createProjectFromTemplate, CreateProjectStep, listTemplates, validateProjectName } from "../utils/templates";
+import { launchProject } from "../utils/workflow";
+
+interface CreateProjectValues {
+  template: string;
+  name: string;
+  location: string[];
+}
+
+const STEP_MESSAGES: Record<CreateProjectStep, string> = {
+  copy: "Copying template...",
+  git: "Initializing git repository...",
+  install: "Installing dependencies...",
+};
+
+/**
+ * Creates a project from a template of the templates folder, then starts its development workflow
+ * @param parentPath - Folder the project is created in by default
+ * @param onCreated - Called once the project exists (e.g. to rescan the folder it was created in)
+ */
+export function CreateProjectForm({ parentPath, onCreated }: { parentPath: string; onCreated?: () => void }) {
+  const preferences = getPreferenceValues<Preferences>();
+  const { pop } = useNavigation();
+  const { data: templates = [], isLoading } = usePromise(listTemplates, [preferences.templatesFolderPath ?? ""], {
+    execute: Boolean(preferences.templatesFolderPath),
+  });
+
+  const { handleSubmit, itemProps, setValidationError } = useForm<CreateProjectValues>({
+    initialValues: { location: [parentPath] },
+    validation: {
+      template: FormValidation.Required,
+      name: FormValidation.Required,
+    },
+    onSubmit: async (values) => {
+      const template = templates.find(({ path }) => path === values.template);
+      const location = values.location[0] ?? parentPath;
+      const name = values.name.trim();
+
+      const nameError = validateProjectName(name, location);
+      if (nameError || !template) {
+        setValidationError("name", nameError);
+        return false;
+      }
+
+      const toast = await showToast({ style: Toast.Style.Animated, title: `Creating ${name}...` });
+
+      try {
+        const projectPath = await createProjectFromTemplate(template, location, name, (step) => {
+          toast.message = STEP_MESSAGES[step];
+        });
+        onCreated?.();
+
+        const project = await scanProjectAtPath(projectPath, new Map());
+        if (!project) throw new Error(`${projectPath} was not created`);
+
+        toast.style = Toast.Style.Success;
+        toast.title = `Created ${name}`;
+        toast.message = `From template ${template.name}`;
+        pop();
+
+        // Jump straight into the usual workflow for the new project
+        await launchProject(project);
+      } catch (error) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "Failed to create project";
+        toast.message = error instanceof Error ? error.message : "Unknown error occurred";
+      }
+    },
+  });
+
+  if (!preferences.templatesFolderPath) {
+    return (
+      <Form
+        actions={
+          <ActionPanel>
+            <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+          </ActionPanel>
+        }
+      >
+        <Form.Description
+          title="No templates folder"
+          text="Set the Templates Folder in the extension preferences. Each of its subfolders is a template."
+        />
+      </Form>
+    );
+  }
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Create New Project"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Create Project" icon={Icon.Plus} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown title="Template" {...itemProps.template}>
+        {templates.map((template) => (
+          <Form.Dropdown.Item
+            key={template.path}
+            value={template.path}
+            title={template.name}
+            icon={template.kind && template.kind !== "node" ? PROJECT_KINDS[template.kind].icon : Icon.Document}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField title="Name" placeholder="my-new-project" {...itemProps.name} />
+      <Form.FilePicker
+        title="Location"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        {...itemProps.location}
+      />
+      <Form.Description text="The template is copied without node_modules, .git or build outputs, then git is initialized and dependencies are installed." />
+    </Form>
+  );
+}
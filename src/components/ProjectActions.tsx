@@ -0,0 +1,156 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, showToast, Toast } from "@raycast/api";
+import { ReactNode } from "react";
+import { Project } from "../types";
+import { GitStatus, pullLatest } from "../utils/git";
+import { clearHistory, HistoryEntry, removeFromHistory, setPinned, trackFolderOpened } from "../utils/history";
+import { getProjectDeeplink } from "../utils/project-search";
+import { getProjectEditor, launchProject } from "../utils/workflow";
+import { BranchPicker } from "./BranchPicker";
+import { ScriptPicker } from "./ScriptPicker";
+import { TagsForm } from "./TagsForm";
+import { WorkflowScriptPreview } from "./WorkflowScriptPreview";
+
+interface ProjectActionsProps {
+  project: Project;
+  historyEntry: HistoryEntry | undefined;
+  onHistoryChange: () => void; // Called after the opening history changed
+  onStarted: () => Promise<void>; // Called after a dev workflow was started
+  gitStatus?: GitStatus | null; // Loaded lazily; null or missing hides the git actions
+  onGitChange?: () => void; // Called after a branch switch or pull
+  onTagsChange?: () => void; // Called after the project's tags were edited
+  children?: ReactNode; // Extra actions shown before the Finder/copy actions
+}
+
+/**
+ * Actions shared by every project item: start or open, script selection, tags, Finder/copy and history management
+ */
+export function ProjectActions({
+  project,
+  historyEntry,
+  onHistoryChange,
+  onStarted,
+  gitStatus,
+  onGitChange,
+  onTagsChange,
+  children,
+}: ProjectActionsProps) {
+  const editor = getProjectEditor(project);
+
+  const start = async () => {
+    await launchProject(project, onHistoryChange);
+    if (!project.isLeafFolder) await onStarted();
+  };
+
+  return (
+    <>
+      <ActionPanel.Section>
+        <Action
+          title={project.isLeafFolder ? `Open Folder in ${editor.name}` : "Start Development Workflow"}
+          icon={Icon.Play}
+          onAction={start}
+        />
+        {project.hasPackageJson && (
+          <Action.Push
+            title="Choose Script…"
+            icon={Icon.List}
+            target={
+              <ScriptPicker
+                project={project}
+                onStart={() => trackFolderOpened(project.path, onHistoryChange)}
+                onStarted={onStarted}
+              />
+            }
+          />
+        )}
+        {children}
+        <Action.Push
+          title="Preview Workflow Script"
+          icon={Icon.Code}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+          target={<WorkflowScriptPreview project={project} />}
+        />
+        <Action.Push
+          title="Edit Tags…"
+          icon={Icon.Tag}
+          shortcut={{ modifiers: ["cmd"], key: "t" }}
+          target={<TagsForm project={project} onChange={onTagsChange} />}
+        />
+        <Action.ShowInFinder title="Open in Finder" path={project.path} />
+        <Action.CopyToClipboard title="Copy Path" content={project.path} />
+        <Action.CreateQuicklink
+          title="Create Quicklink"
+          icon={Icon.Link}
+          quicklink={{ name: `Start ${project.name}`, link: getProjectDeeplink(project) }}
+        />
+        <Action.CopyToClipboard title="Copy Deeplink" icon={Icon.Link} content={getProjectDeeplink(project)} />
+      </ActionPanel.Section>
+      {gitStatus && (
+        <ActionPanel.Section title="Git">
+          {gitStatus.hasUpstream && !project.isLeafFolder && (
+            <Action
+              title="Pull Latest and Start"
+              icon={Icon.Download}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+              onAction={async () => {
+                await showToast({ style: Toast.Style.Animated, title: "Pulling latest changes..." });
+
+                try {
+                  await pullLatest(project.path);
+                  onGitChange?.();
+                } catch (error) {
+                  await showToast({
+                    style: Toast.Style.Failure,
+                    title: "Pull failed",
+                    message: error instanceof Error ? error.message : "Unknown error occurred",
+                  });
+                  return;
+                }
+
+                await start();
+              }}
+            />
+          )}
+          <Action.Push
+            title="Switch Branch…"
+            icon={Icon.Switch}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+            target={<BranchPicker project={project} gitStatus={gitStatus} onSwitched={() => onGitChange?.()} />}
+          />
+        </ActionPanel.Section>
+      )}
+      <ActionPanel.Section title="History">
+        <Action
+          title={historyEntry?.pinned ? "Unpin" : "Pin to Top"}
+          icon={historyEntry?.pinned ? Icon.TackDisabled : Icon.Tack}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+          onAction={() => setPinned(project.path, !historyEntry?.pinned, onHistoryChange)}
+        />
+        {historyEntry && (
+          <Action
+            title="Remove from History"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            onAction={() => removeFromHistory(project.path, onHistoryChange)}
+          />
+        )}
+        <Action
+          title="Clear History"
+          icon={Icon.XMarkCircle}
+          style={Action.Style.Destructive}
+          shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+          onAction={async () => {
+            const confirmed = await confirmAlert({
+              title: "Clear history?",
+              message: "Opening history is removed for all projects. Pinned projects stay pinned.",
+              primaryAction: { title: "Clear History", style: Alert.ActionStyle.Destructive },
+            });
+            if (confirmed) {
+              await clearHistory(onHistoryChange);
+            }
+          }}
+        />
+      </ActionPanel.Section>
+    </>
+  );
+}
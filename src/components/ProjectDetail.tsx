@@ -0,0 +1,158 @@
+import { List } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { Project } from "../types";
+import { findLockfile } from "../utils/package-manager";
+import { PROJECT_KINDS } from "../utils/project-kinds";
+
+/**
+ * Dependencies worth showing with their versions, in display order
+ */
+const KEY_DEPENDENCIES = [
+  "next",
+  "nuxt",
+  "astro",
+  "@sveltejs/kit",
+  "@remix-run/dev",
+  "@angular/core",
+  "react",
+  "vue",
+  "svelte",
+  "vite",
+  "express",
+  "fastify",
+  "typescript",
+  "tailwindcss",
+  "storybook",
+];
+
+const README_EXCERPT_MAX_LINES = 40;
+
+interface PackageJson {
+  name?: string;
+  version?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+interface ProjectDetails {
+  packageJson: PackageJson | null;
+  dependencies: Array<{ name: string; version: string }>;
+  lockfile: string | null;
+  readmeExcerpt: string | null;
+}
+
+/**
+ * Installed version of a dependency, falling back to the range declared in package.json
+ */
+const getDependencyVersion = (projectPath: string, name: string, range: string): string => {
+  try {
+    const installed = JSON.parse(readFileSync(join(projectPath, "node_modules", name, "package.json"), "utf8"));
+    return typeof installed.version === "string" ? installed.version : range;
+  } catch {
+    return range;
+  }
+};
+
+/**
+ * First section of the README: everything up to the second heading, capped in length
+ */
+const readReadmeExcerpt = (projectPath: string): string | null => {
+  const readmeFile = readdirSync(projectPath).find((file) => /^readme(\.md|\.markdown|\.txt)?$/i.test(file));
+  if (!readmeFile) return null;
+
+  const lines = readFileSync(join(projectPath, readmeFile), "utf8").split("\n");
+  const headingIndexes = lines.flatMap((line, index) => (/^#{1,2}\s/.test(line) ? [index] : []));
+  const sectionEnd = headingIndexes.find((index) => index > (headingIndexes[0] ?? -1)) ?? lines.length;
+
+  return lines.slice(0, Math.min(sectionEnd, README_EXCERPT_MAX_LINES)).join("\n").trim() || null;
+};
+
+const loadProjectDetails = async (project: Project): Promise<ProjectDetails> => {
+  let packageJson: PackageJson | null = null;
+  try {
+    packageJson =
+      project.packageJsonPath && existsSync(project.packageJsonPath)
+        ? JSON.parse(readFileSync(project.packageJsonPath, "utf8"))
+        : null;
+  } catch (error) {
+    console.error(`Error reading package.json at ${project.packageJsonPath}:`, error);
+  }
+
+  const declared = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  const dependencies = KEY_DEPENDENCIES.filter((name) => name in declared).map((name) => ({
+    name,
+    version: getDependencyVersion(project.workspace?.root.rootPath ?? project.path, name, declared[name]),
+  }));
+
+  return {
+    packageJson,
+    dependencies,
+    lockfile: findLockfile(project.path) ?? (project.workspace ? findLockfile(project.workspace.root.rootPath) : null),
+    readmeExcerpt: readReadmeExcerpt(project.path),
+  };
+};
+
+const escapeTableCell = (value: string): string => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+/**
+ * Detail pane for a project: package metadata, scripts, key dependencies, port and README excerpt
+ */
+export function ProjectDetail({ project }: { project: Project }) {
+  const { data: details, isLoading } = useCachedPromise(loadProjectDetails, [project]);
+
+  const scripts = Object.entries(details?.packageJson?.scripts ?? {});
+  const markdown = [
+    `## ${details?.packageJson?.name ?? project.name}`,
+    scripts.length > 0
+      ? [
+          "| Script | Command |",
+          "| --- | --- |",
+          ...scripts.map(([name, command]) => `| \`${name}\` | \`${escapeTableCell(command)}\` |`),
+        ].join("\n")
+      : project.runCommand
+        ? `Starts with \`${project.runCommand}\``
+        : "_No scripts_",
+    details?.readmeExcerpt ? `---\n\n${details.readmeExcerpt}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return (
+    <List.Item.Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Name" text={details?.packageJson?.name ?? project.name} />
+          {details?.packageJson?.version && (
+            <List.Item.Detail.Metadata.Label title="Version" text={details.packageJson.version} />
+          )}
+          <List.Item.Detail.Metadata.Label
+            title="Port"
+            text={
+              project.port ? `${project.port}${project.portSource ? ` (${project.portSource})` : ""}` : "Not detected"
+            }
+          />
+          {project.kind && <List.Item.Detail.Metadata.Label title="Type" text={PROJECT_KINDS[project.kind].label} />}
+          {project.hasPackageJson && (
+            <>
+              <List.Item.Detail.Metadata.Label title="Package Manager" text={project.packageManager ?? "Unknown"} />
+              <List.Item.Detail.Metadata.Label title="Lockfile" text={details?.lockfile ?? "None"} />
+            </>
+          )}
+          {details && details.dependencies.length > 0 && (
+            <>
+              <List.Item.Detail.Metadata.Separator />
+              {details.dependencies.map(({ name, version }) => (
+                <List.Item.Detail.Metadata.Label key={name} title={name} text={version} />
+              ))}
+            </>
+          )}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
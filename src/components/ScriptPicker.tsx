@@ -0,0 +1,71 @@
+import { Action, ActionPanel, Icon, List, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { Project } from "../types";
+import { getLastScripts } from "../utils/history";
+import { getScriptCommand, readPackageJsonScripts, startDevWorkflow } from "../utils/workflow";
+import { WorkflowScriptPreview } from "./WorkflowScriptPreview";
+
+/**
+ * Lists every package.json script of a project so a specific one can be started
+ */
+export function ScriptPicker({
+  project,
+  onStart,
+  onStarted,
+}: {
+  project: Project;
+  onStart: () => Promise<void>;
+  onStarted: () => Promise<void>;
+}) {
+  const [lastScript, setLastScript] = useState<string | undefined>();
+  const { pop } = useNavigation();
+
+  useEffect(() => {
+    getLastScripts().then((lastScripts) => setLastScript(lastScripts.get(project.path)));
+  }, [project.path]);
+
+  const scripts = project.packageJsonPath ? Object.entries(readPackageJsonScripts(project.packageJsonPath)) : [];
+
+  return (
+    <List navigationTitle={`Scripts • ${project.name}`} searchBarPlaceholder="Filter scripts...">
+      {scripts.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.Warning}
+          title="No scripts found"
+          description={project.packageJsonPath ?? undefined}
+        />
+      ) : (
+        scripts.map(([name, command]) => (
+          <List.Item
+            key={name}
+            icon={Icon.Terminal}
+            title={name}
+            subtitle={command}
+            accessories={name === lastScript ? [{ icon: Icon.Clock, text: "last used" }] : []}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Run Script"
+                  icon={Icon.Play}
+                  onAction={async () => {
+                    await onStart();
+                    await startDevWorkflow(project, name);
+                    await onStarted();
+                    pop();
+                  }}
+                />
+                <Action.CopyToClipboard title="Copy Command" content={getScriptCommand(project, name)} />
+                <Action.Push
+                  title="Preview Workflow Script"
+                  icon={Icon.Code}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                  target={<WorkflowScriptPreview project={project} script={name} />}
+                />
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}
@@ -0,0 +1,53 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { Project } from "../types";
+import { getProjectTags, listAllTags, parseTags, setProjectTags } from "../utils/tags";
+
+/**
+ * Edits the tags of a project as a comma-separated list
+ * @param onChange - Called after the tags were saved
+ */
+export function TagsForm({ project, onChange }: { project: Project; onChange?: () => void }) {
+  const { pop } = useNavigation();
+  const { data: projectTags, isLoading } = usePromise(getProjectTags);
+
+  const existingTags = listAllTags(projectTags ?? {});
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={`Tags • ${project.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Tags"
+            icon={Icon.Tag}
+            onSubmit={async (values: { tags: string }) => {
+              const tags = parseTags(values.tags);
+              await setProjectTags(project.path, tags);
+              await showToast({
+                style: Toast.Style.Success,
+                title: tags.length > 0 ? "Tags saved" : "Tags removed",
+                message: tags.join(", "),
+              });
+              onChange?.();
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      {/* Rendered once the stored tags are loaded, since the default value is only read on mount */}
+      {projectTags && (
+        <Form.TextField
+          id="tags"
+          title="Tags"
+          placeholder="client-x, oss, archived"
+          info="Comma-separated; tags are lowercased and spaces become dashes"
+          defaultValue={(projectTags[project.path] ?? []).join(", ")}
+        />
+      )}
+      {existingTags.length > 0 && <Form.Description title="In Use" text={existingTags.join(", ")} />}
+    </Form>
+  );
+}
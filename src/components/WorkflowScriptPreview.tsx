@@ -0,0 +1,28 @@
+import { Action, ActionPanel, Detail } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { Project } from "../types";
+import { getWorkflowScriptPreview } from "../utils/workflow";
+
+/**
+ * Shows the AppleScript a project's workflow would run, without running it
+ */
+export function WorkflowScriptPreview({ project, script }: { project: Project; script?: string }) {
+  const { data: workflowScript = "", isLoading } = usePromise(getWorkflowScriptPreview, [project, script]);
+
+  // A fence longer than any backtick run in the script keeps it from closing the code block early
+  const longestBacktickRun = Math.max(0, ...(workflowScript.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestBacktickRun + 1));
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle={`Workflow Script • ${project.name}`}
+      markdown={`${fence}applescript\n${workflowScript}${fence}`}
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Script" content={workflowScript} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,18 @@
+/**
+ * Creates a project from a local template and starts coding on it
+ *
+ * - Templates are the subfolders of the Templates Folder preference
+ * - The template is copied into the dev folder (or a chosen location), git is initialized and dependencies installed
+ * - The new project then goes through the usual development workflow
+ */
+
+import { getPreferenceValues } from "@raycast/api";
+import { CreateProjectForm } from "./components/CreateProjectForm";
+import { Preferences } from "./types";
+import { getRootFolders } from "./utils/roots";
+
+export default function Command() {
+  // The first root is the dev folder, with "~" expanded
+  const [devFolder] = getRootFolders(getPreferenceValues<Preferences>());
+  return <CreateProjectForm parentPath={devFolder.path} />;
+}
@@ -0,0 +1,15 @@
+import { useCachedPromise } from "@raycast/utils";
+import { Project } from "../types";
+import { getGitStatuses } from "../utils/git";
+
+/**
+ * Lazily load the git status of several projects, after (and independently of) the project scan
+ * @returns Git status per project path (null for folders that aren't the top of a git repository) and a revalidate
+ * function
+ */
+export const useGitStatuses = (projects: Project[]) => {
+  const folders = projects.map(({ path, workspace }) => ({ path, repoRoot: workspace?.root.rootPath ?? null }));
+  const { data, revalidate } = useCachedPromise(getGitStatuses, [folders], { execute: folders.length > 0 });
+
+  return { gitStatuses: data ?? {}, revalidateGitStatuses: revalidate };
+};
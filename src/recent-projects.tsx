@@ -0,0 +1,108 @@
+/**
+ * Lists opened projects across all folders, ranked by frecency
+ *
+ * - Pinned projects are shown first, in their own section
+ * - Frecency: every open adds 1 to a score that halves each week, so daily projects stay on top
+ * - Folders that no longer exist are hidden
+ */
+
+import { ActionPanel, getPreferenceValues, Icon, List } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { relative, sep } from "path";
+import { ProjectActions } from "./components/ProjectActions";
+import { useGitStatuses } from "./hooks/useGitStatuses";
+import { Preferences, Project } from "./types";
+import { getGitAccessories } from "./utils/git";
+import { getFrecency, getHistory, getLastScripts, getRecentFolderKeywords, HistoryEntry } from "./utils/history";
+import { PROJECT_KINDS } from "./utils/project-kinds";
+import { findRootFolder, getRootFolders } from "./utils/roots";
+import { scanProjectAtPath } from "./utils/scanner";
+
+interface RecentProject {
+  project: Project;
+  entry: HistoryEntry;
+}
+
+/**
+ * Load history entries with their scanned projects, highest frecency first
+ */
+const loadRecentProjects = async (): Promise<RecentProject[]> => {
+  const [history, lastScripts] = await Promise.all([getHistory(), getLastScripts()]);
+  const now = Date.now();
+
+  const recentProjects = await Promise.all(
+    [...history.values()].map(async (entry) => {
+      const project = await scanProjectAtPath(entry.path, lastScripts);
+      return project ? { project, entry } : null;
+    }),
+  );
+
+  return recentProjects
+    .filter((recentProject): recentProject is RecentProject => recentProject !== null)
+    .sort((a, b) => getFrecency(b.entry, now) - getFrecency(a.entry, now));
+};
+
+export default function Command() {
+  const preferences = getPreferenceValues<Preferences>();
+  const { data: recentProjects = [], isLoading, revalidate } = useCachedPromise(loadRecentProjects);
+
+  const history = new Map(recentProjects.map(({ entry }) => [entry.path, entry]));
+  const pinned = recentProjects.filter(({ entry }) => entry.pinned);
+  const recent = recentProjects.filter(({ entry }) => !entry.pinned);
+  const { gitStatuses, revalidateGitStatuses } = useGitStatuses(recentProjects.map(({ project }) => project));
+
+  // Path relative to its root folder (prefixed with the root's label when there are several), absolute otherwise
+  const roots = getRootFolders(preferences);
+  const getSubtitle = (project: Project) => {
+    const root = findRootFolder(roots, project.path);
+    if (!root) return project.path;
+
+    const segments = relative(root.path, project.path).split(sep);
+    return (roots.length > 1 ? [root.label, ...segments] : segments).join(" › ");
+  };
+
+  const renderItem = ({ project, entry }: RecentProject) => (
+    <List.Item
+      key={project.path}
+      icon={
+        entry.pinned
+          ? Icon.Tack
+          : project.isLeafFolder
+            ? Icon.Folder
+            : project.kind && project.kind !== "node"
+              ? PROJECT_KINDS[project.kind].icon
+              : Icon.Code
+      }
+      title={project.name}
+      subtitle={getSubtitle(project)}
+      keywords={getRecentFolderKeywords(project, history)}
+      accessories={[
+        ...getGitAccessories(gitStatuses[project.path]),
+        { text: `${entry.count}×`, tooltip: `Opened ${entry.count} times` },
+        ...(entry.count > 0 ? [{ date: new Date(entry.timestamp), tooltip: "Last opened" }] : []),
+      ]}
+      actions={
+        <ActionPanel>
+          <ProjectActions
+            project={project}
+            historyEntry={entry}
+            onHistoryChange={revalidate}
+            onStarted={async () => revalidate()}
+            gitStatus={gitStatuses[project.path]}
+            onGitChange={revalidateGitStatuses}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search recent projects...">
+      <List.EmptyView icon={Icon.Clock} title="No recent projects" description="Projects you open will appear here" />
+      <List.Section title="Pinned">{pinned.map(renderItem)}</List.Section>
+      <List.Section title="Recent" subtitle={`${recent.length} projects`}>
+        {recent.map(renderItem)}
+      </List.Section>
+    </List>
+  );
+}
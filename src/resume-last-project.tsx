@@ -0,0 +1,28 @@
+/**
+ * Starts the development workflow of the most recently opened project, without showing a list
+ */
+
+import { showToast, Toast } from "@raycast/api";
+import { getLastOpenedFolder, getLastScripts } from "./utils/history";
+import { scanProjectAtPath } from "./utils/scanner";
+import { launchProject } from "./utils/workflow";
+
+export default async function Command() {
+  const lastOpened = await getLastOpenedFolder();
+  if (!lastOpened) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "No recent project",
+      message: "Open a project with Start Coding Now first",
+    });
+    return;
+  }
+
+  const project = await scanProjectAtPath(lastOpened.path, await getLastScripts());
+  if (!project) {
+    await showToast({ style: Toast.Style.Failure, title: "Project not found", message: lastOpened.path });
+    return;
+  }
+
+  await launchProject(project);
+}
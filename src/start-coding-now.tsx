@@ -2,27 +2,33 @@
  * Raycast extension for managing coding sessions
  *
  * Features:
- * - Tree navigation through project folders (ignores .dot folders)
- * - Recursively detects projects with package.json files
- * - Extracts port numbers from package.json scripts
+ * - Tree navigation through project folders (ignores .dot folders and the Ignore Patterns preference)
+ * - Several root folders (dev folder + Additional Folders), each shown as its own section
+ * - Recursively detects projects with package.json files, plus Rust, Go, Python, Ruby and docker-compose projects
+ * - Detects dev server ports from the script being run, .env files, framework configs and framework defaults
  * - Shows project type with minimal icons (only folders get icons)
  * - Handles leaf folders (folders with no package.json and no valid subfolders)
- * - Automates development workflow (opens in Cursor, runs dev server, optionally opens browser)
+ * - Automates development workflow (opens in your editor, runs dev server, optionally opens browser)
  * - Conditional Chrome opening based on port detection
- * - Recent folders tracking with search boost keywords
+ * - Frecency-ranked history (open counts decayed over time) with pinning and search boost keywords
  * - Manual window arrangement (you control window positioning)
  * - Automatically closes Cursor's secondary sidebar (Explorer panel) on open
  * - DRY code architecture with reusable script generators
+ * - Creates new projects from local templates (Cmd+N) in the folder being browsed
+ * - Tags (Cmd+T) with a search bar dropdown filtering the whole tree by tag; tags are also search keywords
+ * - Optional project argument (fuzzy-matched, or a path from a deeplink) starts a unique match without the list
  *
  * Navigation Logic:
- * - Folders with package.json → Show development workflow
+ * - Folders with package.json (or another project marker file) → Show development workflow
  * - Folders with valid subfolders (non-dot) → Navigate deeper
- * - Folders with neither → Treat as leaf folder (open directly in Cursor)
+ * - Folders with neither → Treat as leaf folder (open directly in the editor)
  *
  * Icon System:
  * - 📁 Folder icon: Only for navigable folders
- * - No icon: Projects and leaf folders (clean, minimal)
+ * - 🦀 🐹 🐍 💎 🐳 Kind icon: Non-Node projects
+ * - No icon: Node projects and leaf folders (clean, minimal)
  * - ⭐ Star accessory: Recently opened folders (< 1 hour)
+ * - "running" tag: Projects with a live dev server session
  *
  * Recent Folders Boost:
  * - ⭐ Star icon: Opened within last hour (highest priority)
@@ -32,448 +38,291 @@
  * - Search results prioritize recently used folders
  */
 
-import { Action, ActionPanel, getPreferenceValues, Icon, List, LocalStorage, showToast, Toast, useNavigation } from "@raycast/api";
-import { execSync } from "child_process";
-import { existsSync, readdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
-import { tmpdir } from "os";
-import { dirname, join } from "path";
+import {
+  Action,
+  ActionPanel,
+  Color,
+  getPreferenceValues,
+  Icon,
+  LaunchProps,
+  List,
+  popToRoot,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useCachedPromise, usePromise } from "@raycast/utils";
+import { join, relative, sep } from "path";
 import { useEffect, useState } from "react";
-
-interface Project {
-  name: string;
-  path: string;
-  packageJsonPath: string | null; // Path to the actual package.json file (may be in parent directory)
-  hasPackageJson: boolean;
-  hasBunLock: boolean;
-  port: string | null; // Detected port from package.json scripts
-  hasValidSubfolders: boolean; // Whether folder has non-dot subfolders
-  isLeafFolder: boolean; // Whether this is a leaf folder (no package.json and no valid subfolders)
-}
-
-interface Preferences {
-  devFolderPath: string; // Path to the development projects folder
-  defaultPort: string; // Default port for development server
-}
-
-/**
- * Finds the nearest package.json file by walking up the directory tree
- * @param startPath - Starting directory path to search from
- * @returns Path to package.json or null if not found
- */
-const findPackageJson = (startPath: string): string | null => {
-  let currentPath = startPath;
-  const rootPath = join(startPath, '..', '..', '..'); // Prevent infinite loops by setting a reasonable root
-
-  while (currentPath !== rootPath) {
-    const packageJsonPath = join(currentPath, 'package.json');
-    if (existsSync(packageJsonPath)) {
-      return packageJsonPath;
-    }
-    currentPath = dirname(currentPath);
-  }
-
-  return null;
-};
-
-/**
- * Extracts port number from package.json scripts
- * @param packageJsonPath - Path to package.json file
- * @returns Port number as string or null if not found
- */
-const extractPortFromPackageJson = (packageJsonPath: string): string | null => {
-  try {
-    const packageJsonContent = readFileSync(packageJsonPath, 'utf8');
-    const packageJson = JSON.parse(packageJsonContent);
-
-    const scripts = packageJson.scripts || {};
-
-    // Common dev script patterns that include port numbers
-    const portPatterns = [
-      /--port\s+(\d+)/,
-      /-p\s+(\d+)/,
-      /PORT=(\d+)/,
-      /port\s*=\s*(\d+)/,
-      /localhost:(\d+)/,
-      /127\.0\.0\.1:(\d+)/,
-      /0\.0\.0\.0:(\d+)/
-    ];
-
-    for (const [scriptName, scriptCommand] of Object.entries(scripts)) {
-      if (typeof scriptCommand === 'string') {
-        for (const pattern of portPatterns) {
-          const match = scriptCommand.match(pattern);
-          if (match && match[1]) {
-            return match[1];
-          }
-        }
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`Error reading package.json at ${packageJsonPath}:`, error);
-    return null;
-  }
-};
-
-/**
- * Execute AppleScript by writing it to a temporary file and running it with osascript
- * This approach provides better system integration for application focus management
- */
-const executeAppleScript = (script: string): void => {
-  const tempScriptPath = join(tmpdir(), `raycast-workflow-${Date.now()}.scpt`);
-
-  try {
-    // Write the AppleScript to a temporary file
-    writeFileSync(tempScriptPath, script, "utf8");
-
-    // Execute using osascript for proper system integration
-    execSync(`osascript "${tempScriptPath}"`, {
-      stdio: "inherit",
-      env: { ...process.env },
-    });
-  } catch (error) {
-    throw new Error(`AppleScript execution failed: ${error instanceof Error ? error.message : "Unknown error"}`);
-  } finally {
-    // Clean up temporary file
-    try {
-      unlinkSync(tempScriptPath);
-    } catch {
-      // Ignore cleanup errors
-    }
-  }
-};
-
-/**
- * Generate the common Cursor opening workflow (used by both project and leaf folder workflows)
- */
-const generateCursorOpeningScript = (folderPath: string): string => {
-  return `
-    -- Exit Raycast immediately to prevent focus conflicts
-    tell application "System Events"
-      keystroke " " using {command down} -- CMD + SPACE to minimize Raycast
-    end tell
-    delay 0.5
-
-    -- Open folder in Cursor
-    do shell script "open -a Cursor \\"${folderPath}\\""
-    delay 2
-
-    -- Activate Cursor
-    tell application "Cursor"
-      activate
-    end tell
-    delay 1
-
-  `;
-};
-
-/**
- * Generate the development workflow script (Cursor opening + terminal + dev command)
- */
-const generateDevWorkflowScript = (projectPath: string, port: string, shouldOpenBrowser: boolean): string => {
-  return `${generateCursorOpeningScript(projectPath)}
-    -- Open integrated terminal using Command Palette (more reliable)
-    tell application "System Events"
-      keystroke "p" using {command down, shift down} -- Open Command Palette
-      delay 0.5
-      keystroke "View: Toggle Terminal" -- Type command
-      delay 0.3
-      key code 36 -- Press Enter
-      delay 1
-    end tell
-
-    -- Send "bun run dev"
-    set the clipboard to "bun run dev"
-    delay 0.2
-    tell application "System Events"
-      keystroke "v" using {command down} -- paste
-      delay 0.2
-      key code 36 -- return
-    end tell
-
-    delay 2
-
-    ${shouldOpenBrowser ? `
-    -- Open Chrome on localhost
-    do shell script "open -a 'Google Chrome' http://localhost:${port}"
-
-    delay 2` : ''}
-  `;
-};
-
-/**
- * Execute the complete development workflow
- * @param projectPath - Path to the project directory
- * @param port - Port number for development server
- * @param shouldOpenBrowser - Whether to open browser (only if port is detected)
- */
-const executeCompleteWorkflow = (projectPath: string, port: string, shouldOpenBrowser: boolean = false): void => {
-  const workflowScript = generateDevWorkflowScript(projectPath, port, shouldOpenBrowser);
-  executeAppleScript(workflowScript);
-};
-
-
-
-const startDevWorkflow = async (project: Project) => {
-  const preferences = getPreferenceValues<Preferences>();
-  const port = project.port || preferences.defaultPort || "3010";
-
-  try {
-    await showToast({
-      style: Toast.Style.Animated,
-      title: "Starting development workflow...",
-      message: `Setting up ${project.name}${project.port ? ` on port ${project.port}` : ''}`,
-    });
-
-    executeCompleteWorkflow(project.path, port, project.port !== null);
-
-    await showToast({
-      style: Toast.Style.Success,
-      title: "Development workflow started!",
-      message: `${project.name} setup in progress...`,
-    });
-  } catch (error) {
-    await showToast({
-      style: Toast.Style.Failure,
-      title: "Workflow failed",
-      message: error instanceof Error ? error.message : "Unknown error occurred",
-    });
-  }
-};
+import { CreateProjectForm } from "./components/CreateProjectForm";
+import { ProjectActions } from "./components/ProjectActions";
+import { ProjectDetail } from "./components/ProjectDetail";
+import { useGitStatuses } from "./hooks/useGitStatuses";
+import { Preferences, Project } from "./types";
+import {
+  getHistory,
+  getLastScripts,
+  getRecentFolderKeywords,
+  HistoryEntry,
+  sortItemsByRecentUsage,
+} from "./utils/history";
+import { getGitAccessories } from "./utils/git";
+import { parseIgnorePatterns } from "./utils/ignore";
+import { PROJECT_KINDS } from "./utils/project-kinds";
+import { findProjects } from "./utils/project-search";
+import { findRootFolder, getRootFolders, RootFolder } from "./utils/roots";
+import { getAllProjects, getItemsAtPath, scanProjectAtPath } from "./utils/scanner";
+import { getLiveSessionPaths } from "./utils/sessions";
+import { getProjectTags, listAllTags } from "./utils/tags";
+import { launchProject } from "./utils/workflow";
 
 const getProjectIcon = (project: Project): Icon => {
   if (project.port) return Icon.Globe; // Port detected - web project
-  if (project.hasBunLock) return Icon.Terminal; // Bun project
+  if (project.packageManager) return Icon.Terminal; // Package manager detected
   if (project.hasPackageJson) return Icon.Document; // Node.js project
   return Icon.Folder; // Regular folder
 };
 
-const getProjectAccessories = (project: Project, recentFolders: Map<string, number>) => {
+const getProjectAccessories = (project: Project, recentFolders: Map<string, HistoryEntry>) => {
   const accessories = [];
 
+  if (project.configError) {
+    accessories.push({ icon: Icon.Warning, tooltip: project.configError });
+  }
+
   if (project.port) {
-    accessories.push({ icon: Icon.Globe, text: `${project.port}` });
+    accessories.push({
+      icon: Icon.Globe,
+      text: project.portSource ? `${project.port} · ${project.portSource}` : `${project.port}`,
+      tooltip: project.portSource ? `Port from ${project.portSource}` : undefined,
+    });
   }
 
   if (project.hasPackageJson) {
     accessories.push({ icon: Icon.Document, text: "package.json" });
-  }
-
-  if (project.hasBunLock) {
-    accessories.push({ icon: Icon.Terminal, text: "bun" });
-  }
-
-  return accessories;
-};
-
-/**
- * Get keywords for recent folders to improve search ranking
- * This helps recently opened folders appear higher in Raycast search
- */
-const getRecentFolderKeywords = (project: Project, recentFolders: Map<string, number>): string[] => {
-  const timestamp = recentFolders.get(project.path);
-  if (!timestamp) return [];
-
-  const now = Date.now();
-  const ageInHours = (now - timestamp) / (1000 * 60 * 60);
-
-  // Add search boost keywords based on recency
-  if (ageInHours < 1) return ["🔥 hot", "recent", "opened"];        // Last hour
-  if (ageInHours < 6) return ["recent", "opened"];                   // Last 6 hours
-  if (ageInHours < 24) return ["recent"];                            // Last day
-  if (ageInHours < 72) return ["opened"];                            // Last 3 days
-  return [];                                                         // Older folders
-};
-
-/**
- * Get items (folders or projects) at the current navigation path
- * Filters out dot folders and determines folder types
- */
-const getItemsAtPath = (basePath: string, currentPath: string): Project[] => {
-  try {
-    const fullPath = join(basePath, currentPath);
-    const items = readdirSync(fullPath);
-
-    return items
-      .filter((item) => {
-        // Ignore folders starting with "."
-        if (item.startsWith('.')) return false;
-
-        const itemPath = join(fullPath, item);
-        return statSync(itemPath).isDirectory();
-      })
-      .map((folderName) => {
-        const projectPath = join(fullPath, folderName);
-
-        // Find package.json recursively (in current or parent directories)
-        const packageJsonPath = findPackageJson(projectPath);
-        const hasPackageJson = packageJsonPath !== null;
-
-        // Check for bun.lock in the project directory
-        const bunLockPath = join(projectPath, "bun.lock");
-        const hasBunLock = existsSync(bunLockPath);
-
-        // Extract port from package.json if found
-        const port = packageJsonPath ? extractPortFromPackageJson(packageJsonPath) : null;
-
-        // Check if this folder has valid subfolders (non-dot folders)
-        const hasValidSubfoldersValue = hasValidSubfolders(projectPath);
-
-        return {
-          name: folderName,
-          path: projectPath,
-          packageJsonPath,
-          hasPackageJson,
-          hasBunLock,
-          port,
-          hasValidSubfolders: hasValidSubfoldersValue,
-          isLeafFolder: !hasPackageJson && !hasValidSubfoldersValue,
-        };
-      })
-      .sort((a, b) => a.name.localeCompare(b.name));
-  } catch (error) {
-    console.error("Error scanning items:", error);
-    return [];
-  }
-};
-
-/**
- * Check if a folder has valid subfolders (non-dot folders, making it navigable)
- */
-const hasValidSubfolders = (folderPath: string): boolean => {
-  try {
-    const items = readdirSync(folderPath);
-    return items.some((item) => {
-      // Ignore dot folders
-      if (item.startsWith('.')) return false;
-
-      const itemPath = join(folderPath, item);
-      return statSync(itemPath).isDirectory();
+  } else if (project.kind) {
+    accessories.push({
+      icon: Icon.Terminal,
+      text: PROJECT_KINDS[project.kind].label,
+      tooltip: project.runCommand ?? undefined,
     });
-  } catch {
-    return false;
   }
-};
 
-/**
- * Track when a folder is opened
- */
-const trackFolderOpened = async (folderPath: string, onUpdate?: () => void): Promise<void> => {
-  try {
-    const recentFoldersJson = await LocalStorage.getItem<string>("recentFolders");
-    const recentFolders: Array<{ path: string; timestamp: number }> = recentFoldersJson
-      ? JSON.parse(recentFoldersJson)
-      : [];
-
-    // Remove existing entry for this folder
-    const filteredFolders = recentFolders.filter(folder => folder.path !== folderPath);
-
-    // Add to the beginning with current timestamp
-    const updatedFolders = [
-      { path: folderPath, timestamp: Date.now() },
-      ...filteredFolders
-    ].slice(0, 10); // Keep only the 10 most recent
-
-    await LocalStorage.setItem("recentFolders", JSON.stringify(updatedFolders));
-
-    // Call the update callback if provided
-    if (onUpdate) {
-      onUpdate();
-    }
-  } catch (error) {
-    console.error("Error tracking folder:", error);
+  if (project.packageManager) {
+    accessories.push({ icon: Icon.Terminal, text: project.packageManager });
   }
-};
 
-/**
- * Get recently opened folders with their timestamps
- */
-const getRecentFolders = async (): Promise<Map<string, number>> => {
-  try {
-    const recentFoldersJson = await LocalStorage.getItem<string>("recentFolders");
-    if (!recentFoldersJson) return new Map();
-
-    const recentFolders: Array<{ path: string; timestamp: number }> = JSON.parse(recentFoldersJson);
-    return new Map(recentFolders.map(folder => [folder.path, folder.timestamp]));
-  } catch (error) {
-    console.error("Error getting recent folders:", error);
-    return new Map();
+  if (project.workspaceRoot) {
+    accessories.push({ icon: Icon.Box, text: `${project.workspaceRoot.runner} workspace` });
   }
+
+  return accessories;
 };
 
 /**
- * Sort items by recent usage, with recently opened folders first
+ * Scan tagged folders directly, wherever they are in the tree (folders that no longer exist are skipped)
  */
-const sortItemsByRecentUsage = (items: Project[], recentFolders: Map<string, number>): Project[] => {
-  return [...items].sort((a, b) => {
-    const aTimestamp = recentFolders.get(a.path) || 0;
-    const bTimestamp = recentFolders.get(b.path) || 0;
-
-    // Sort by timestamp (most recent first), then by name
-    if (aTimestamp !== bTimestamp) {
-      return bTimestamp - aTimestamp; // Most recent first
-    }
-    return a.name.localeCompare(b.name);
-  });
+const scanTaggedProjects = async (paths: string[], lastScripts: Map<string, string>): Promise<Project[]> => {
+  const projects = await Promise.all(paths.map((path) => scanProjectAtPath(path, lastScripts)));
+  return projects.filter((project): project is Project => project !== null);
 };
 
 /**
  * Navigation component for browsing project folders
+ * @param initialSearchText - Starts in search-all mode with this search (an ambiguous project argument)
  */
-function ProjectNavigation() {
+function ProjectNavigation({ initialSearchText = "" }: { initialSearchText?: string }) {
   const preferences = getPreferenceValues<Preferences>();
+  const [currentRootPath, setCurrentRootPath] = useState<string | null>(null);
   const [currentPath, setCurrentPath] = useState("");
-  const [recentFolders, setRecentFolders] = useState<Map<string, number>>(new Map());
+  const [recentFolders, setRecentFolders] = useState<Map<string, HistoryEntry>>(new Map());
+  const [lastScripts, setLastScripts] = useState<Map<string, string>>(new Map());
+  const [isSearchingAll, setIsSearchingAll] = useState(Boolean(initialSearchText));
+  const [searchText, setSearchText] = useState(initialSearchText);
+  const [tagFilter, setTagFilter] = useState(""); // Empty shows all projects
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
   const navigation = useNavigation();
 
   // Load recent folders on component mount
   useEffect(() => {
-    getRecentFolders().then(setRecentFolders);
+    getHistory().then(setRecentFolders);
+    getLastScripts().then(setLastScripts);
   }, []);
 
   // Function to refresh recent folders
   const refreshRecentFolders = async () => {
-    const updatedRecentFolders = await getRecentFolders();
+    const updatedRecentFolders = await getHistory();
     setRecentFolders(updatedRecentFolders);
   };
 
-  const items = getItemsAtPath(preferences.devFolderPath, currentPath);
-  const sortedItems = sortItemsByRecentUsage(items, recentFolders);
+  // Projects with a live dev server, refreshed after a workflow starts
+  const { data: liveSessionPaths = [], revalidate: revalidateSessions } = useCachedPromise(getLiveSessionPaths);
+
+  // Function to refresh last scripts and sessions (after a script was started)
+  const refreshLastScripts = async () => {
+    setLastScripts(await getLastScripts());
+    revalidateSessions();
+  };
+
+  // Tags of all projects, refreshed after they are edited
+  const { data: projectTags = {}, revalidate: revalidateTags } = useCachedPromise(getProjectTags);
+  const taggedPaths = tagFilter
+    ? Object.keys(projectTags).filter((path) => projectTags[path].includes(tagFilter))
+    : null;
+
+  const roots = getRootFolders(preferences);
+  const ignorePatterns = parseIgnorePatterns(preferences.ignorePatterns);
+
+  // Searching all projects and filtering by tag both list projects from the whole tree, flat
+  const isShowingAll = isSearchingAll || taggedPaths !== null;
+
+  // A single root is browsed directly; with several, each root is a section until one is entered
+  const activeRoot = roots.length === 1 ? roots[0] : (roots.find((root) => root.path === currentRootPath) ?? null);
+  const visibleRoots = isShowingAll || !activeRoot ? roots : [activeRoot];
+
+  // Cached results render immediately while changed folders are rescanned in the background
+  const {
+    data: sections = [],
+    isLoading,
+    revalidate: revalidateItems,
+  } = useCachedPromise(
+    async (
+      rootFolders: RootFolder[],
+      path: string,
+      searchAll: boolean,
+      scripts: Record<string, string>,
+      patterns: string[],
+      tagged: string[] | null,
+    ) => {
+      const lastScriptsMap = new Map(Object.entries(scripts));
+      return Promise.all(
+        rootFolders.map(async (root) => ({
+          root,
+          items: tagged
+            ? await scanTaggedProjects(
+                tagged.filter((taggedPath) => findRootFolder(rootFolders, taggedPath)?.path === root.path),
+                lastScriptsMap,
+              )
+            : searchAll
+              ? await getAllProjects(root.path, Number(preferences.searchMaxDepth) || 4, lastScriptsMap, patterns)
+              : await getItemsAtPath(root.path, path, lastScriptsMap, patterns),
+        })),
+      );
+    },
+    [visibleRoots, currentPath, isSearchingAll, Object.fromEntries(lastScripts), ignorePatterns, taggedPaths],
+  );
+  const items = sections.flatMap((section) => section.items);
+  const sortedSections = sections.map(({ root, items: sectionItems }) => ({
+    root,
+    items: sortItemsByRecentUsage(sectionItems, recentFolders),
+  }));
+
+  // Git status loads lazily once the items are known, only for projects and leaf folders
+  const { gitStatuses, revalidateGitStatuses } = useGitStatuses(items.filter((item) => item.kind || item.isLeafFolder));
   const pathSegments = currentPath.split("/").filter(Boolean);
-  const canGoBack = pathSegments.length > 0;
+  const canGoBack = !isShowingAll && (pathSegments.length > 0 || (roots.length > 1 && activeRoot !== null));
+
+  // Going back from the top of a root returns to the list of roots
+  const goBack = () => {
+    if (pathSegments.length > 0) {
+      setCurrentPath(pathSegments.slice(0, -1).join("/"));
+    } else {
+      setCurrentRootPath(null);
+    }
+  };
+
+  const navigateInto = (root: RootFolder, folder: Project) => {
+    setCurrentRootPath(root.path);
+    setCurrentPath(relative(root.path, folder.path).split(sep).join("/"));
+  };
+
+  // Breadcrumb of a project relative to its root folder (subtitle in search-all mode)
+  const getProjectBreadcrumb = (project: Project, root: RootFolder) => {
+    return relative(root.path, project.path).split(sep).join(" › ");
+  };
+
+  const searchModeAction = (
+    <Action
+      title={isSearchingAll ? "Browse Folders" : "Search All Projects"}
+      icon={isSearchingAll ? Icon.Folder : Icon.MagnifyingGlass}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+      onAction={() => setIsSearchingAll(!isSearchingAll)}
+    />
+  );
+
+  // New projects are created in the folder being browsed (the root folder when searching all projects)
+  const getCreateProjectAction = (root: RootFolder) => (
+    <Action.Push
+      title="Create New Project"
+      icon={Icon.NewFolder}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={
+        <CreateProjectForm
+          parentPath={isShowingAll ? root.path : join(root.path, currentPath)}
+          onCreated={() => {
+            revalidateItems();
+            refreshRecentFolders();
+          }}
+        />
+      }
+    />
+  );
+
+  const detailAction = (
+    <Action
+      title={isShowingDetail ? "Hide Details" : "Show Details"}
+      icon={Icon.Sidebar}
+      shortcut={{ modifiers: ["cmd"], key: "d" }}
+      onAction={() => setIsShowingDetail(!isShowingDetail)}
+    />
+  );
 
   // Generate breadcrumb title
-  const getBreadcrumbTitle = () => {
-    if (pathSegments.length === 0) return "Development Projects";
+  const getBreadcrumbTitle = (root: RootFolder) => {
+    if (isShowingAll) return roots.length > 1 ? root.label : tagFilter ? `Tagged ${tagFilter}` : "All Projects";
+    if (pathSegments.length === 0) return root.label;
     return pathSegments[pathSegments.length - 1];
   };
 
-  const getBreadcrumbSubtitle = () => {
-    if (pathSegments.length === 0) return `${sortedItems.length} items found`;
-    return `${sortedItems.length} items • ${pathSegments.join(" › ")}`;
+  const getBreadcrumbSubtitle = (root: RootFolder, count: number) => {
+    if (isShowingAll) return tagFilter ? `${count} projects tagged ${tagFilter}` : `${count} projects found`;
+    if (pathSegments.length === 0) return `${count} items found`;
+    return `${count} items • ${[...(roots.length > 1 ? [root.label] : []), ...pathSegments].join(" › ")}`;
   };
 
-  if (sortedItems.length === 0) {
+  // Filters the whole tree by tag
+  const tagDropdown = (
+    <List.Dropdown tooltip="Filter by Tag" value={tagFilter} onChange={setTagFilter}>
+      <List.Dropdown.Item title="All Projects" value="" icon={Icon.Folder} />
+      <List.Dropdown.Section title="Tags">
+        {listAllTags(projectTags).map((tag) => (
+          <List.Dropdown.Item key={tag} title={tag} value={tag} icon={Icon.Tag} />
+        ))}
+      </List.Dropdown.Section>
+    </List.Dropdown>
+  );
+
+  if (items.length === 0 && !isLoading) {
     return (
-      <List>
+      <List searchBarAccessory={tagDropdown}>
         <List.Item
           icon={Icon.Warning}
           title="No items found"
-          subtitle={canGoBack ? "This folder is empty" : `Check your dev folder: ${preferences.devFolderPath}`}
+          subtitle={
+            tagFilter
+              ? `No projects are tagged ${tagFilter}`
+              : canGoBack
+              ? "This folder is empty"
+              : `Check your dev folder${roots.length > 1 ? "s" : ""}: ${roots.map(({ path }) => path).join(", ")}`
+          }
           actions={
-            canGoBack ? (
-              <ActionPanel>
-                <Action
-                  title="Go Back"
-                  icon={Icon.ArrowLeft}
-                  onAction={() => {
-                    const newPath = pathSegments.slice(0, -1).join("/");
-                    setCurrentPath(newPath);
-                  }}
-                />
-              </ActionPanel>
-            ) : undefined
+            <ActionPanel>
+              {canGoBack && (
+                <Action title="Go Back" icon={Icon.ArrowLeft} onAction={goBack} />
+              )}
+              {searchModeAction}
+              {getCreateProjectAction(activeRoot ?? roots[0])}
+            </ActionPanel>
           }
         />
       </List>
@@ -481,126 +330,170 @@ function ProjectNavigation() {
   }
 
   return (
-    <List>
-      <List.Section title={getBreadcrumbTitle()} subtitle={getBreadcrumbSubtitle()}>
-        {canGoBack && (
-          <List.Item
-            key=".."
-            icon={Icon.ArrowLeft}
-            title=".."
-            subtitle="Go back"
-            keywords={["navigation", "back"]}
-            actions={
-              <ActionPanel>
-                <Action
-                  title="Go Back"
-                  icon={Icon.ArrowLeft}
-                  onAction={() => {
-                    const newPath = pathSegments.slice(0, -1).join("/");
-                    setCurrentPath(newPath);
-                  }}
-                />
-              </ActionPanel>
-            }
-          />
-        )}
-
-        {sortedItems.map((item) => {
-          const isNavigable = !item.hasPackageJson && item.hasValidSubfolders;
-          const isLeafFolder = item.isLeafFolder;
-
-          // Simplified icon logic: only show folder icon for navigable folders
-          const icon = isNavigable ? Icon.Folder : undefined;
-
-          // Show accessories for all items, but only show project-specific ones for non-navigable items
-          const projectAccessories = isNavigable || isLeafFolder ? [] : getProjectAccessories(item, recentFolders);
-
-          // Add star icon for recently opened folders (all types)
-          const recentAccessories = [];
-          const timestamp = recentFolders.get(item.path);
-          if (timestamp) {
-            const now = Date.now();
-            const ageInHours = (now - timestamp) / (1000 * 60 * 60);
-            if (ageInHours < 1) {
-              recentAccessories.push({ icon: Icon.Star, text: "" });
-            }
-          }
-
-          const accessories = [...projectAccessories, ...recentAccessories];
-          const keywords = getRecentFolderKeywords(item, recentFolders);
-
-          return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail={isShowingDetail}
+      searchBarPlaceholder={isShowingAll ? "Search all projects..." : undefined}
+      searchBarAccessory={tagDropdown}
+      searchText={searchText}
+      onSearchTextChange={setSearchText}
+      filtering
+    >
+      {sortedSections.map(({ root, items: sectionItems }, sectionIndex) => (
+        <List.Section
+          key={root.path}
+          title={getBreadcrumbTitle(root)}
+          subtitle={getBreadcrumbSubtitle(root, sectionItems.length)}
+        >
+          {canGoBack && sectionIndex === 0 && (
             <List.Item
-              key={item.path}
-              icon={icon}
-              title={item.name}
-              subtitle={
-                isNavigable
-                  ? `${item.path.split("/").pop()} (folder)`
-                  : isLeafFolder
-                  ? `${item.path} (empty folder)`
-                  : item.path
-              }
-              accessories={accessories}
-              keywords={keywords}
+              key=".."
+              icon={Icon.ArrowLeft}
+              title=".."
+              subtitle="Go back"
+              keywords={["navigation", "back"]}
               actions={
                 <ActionPanel>
-                  {isNavigable ? (
-                    <Action
-                      title="Navigate to Folder"
-                      icon={Icon.ChevronRight}
-                      onAction={() => {
-                        const relativePath = currentPath ? `${currentPath}/${item.name}` : item.name;
-                        setCurrentPath(relativePath);
-                      }}
-                    />
-                  ) : (
-                    <>
-                      <Action
-                        title={isLeafFolder ? "Open Folder in Cursor" : "Start Development Workflow"}
-                        icon={Icon.Play}
-                        onAction={async () => {
-                          if (isLeafFolder) {
-                            // Track folder usage for leaf folders
-                            await trackFolderOpened(item.path, refreshRecentFolders);
-
-                            // For leaf folders, just open in Cursor without running dev workflow
-                            await showToast({
-                              style: Toast.Style.Animated,
-                              title: "Opening folder...",
-                              message: `Opening ${item.name} in Cursor`,
-                            });
-
-                            const workflowScript = generateCursorOpeningScript(item.path);
-
-                            executeAppleScript(workflowScript);
-
-                            await showToast({
-                              style: Toast.Style.Success,
-                              title: "Folder opened!",
-                              message: `${item.name} opened in Cursor`,
-                            });
-                          } else {
-                            // Track folder usage for development workflow
-                            await trackFolderOpened(item.path, refreshRecentFolders);
-                            await startDevWorkflow(item);
-                          }
-                        }}
-                      />
-                      <Action.ShowInFinder title="Open in Finder" path={item.path} />
-                      <Action.CopyToClipboard title="Copy Path" content={item.path} />
-                    </>
-                  )}
+                  <Action title="Go Back" icon={Icon.ArrowLeft} onAction={goBack} />
+                  {getCreateProjectAction(root)}
                 </ActionPanel>
               }
             />
-          );
-        })}
-      </List.Section>
+          )}
+
+          {sectionItems.map((item) => {
+            const isNavigable = !item.kind && item.hasValidSubfolders;
+            const isLeafFolder = item.isLeafFolder;
+
+            // Simplified icon logic: folder icon for navigable folders, kind icon for non-Node projects
+            const icon = isNavigable
+              ? Icon.Folder
+              : item.kind && item.kind !== "node"
+              ? PROJECT_KINDS[item.kind].icon
+              : undefined;
+
+            // Show accessories for all items, but only show project-specific ones for non-navigable items
+            const projectAccessories = isNavigable || isLeafFolder ? [] : getProjectAccessories(item, recentFolders);
+
+            // Add star icon for recently opened folders and tack icon for pinned ones (all types)
+            const recentAccessories = [];
+            const historyEntry = recentFolders.get(item.path);
+            if (historyEntry && historyEntry.count > 0) {
+              const now = Date.now();
+              const ageInHours = (now - historyEntry.timestamp) / (1000 * 60 * 60);
+              if (ageInHours < 1) {
+                recentAccessories.push({ icon: Icon.Star, text: "" });
+              }
+            }
+            if (historyEntry?.pinned) {
+              recentAccessories.push({ icon: Icon.Tack, tooltip: "Pinned" });
+            }
+
+            const sessionAccessories = liveSessionPaths.includes(item.path)
+              ? [{ tag: { value: "running", color: Color.Green }, tooltip: "Dev server running" }]
+              : [];
+
+            const itemTags = projectTags[item.path] ?? [];
+            const tagAccessories =
+              itemTags.length > 0 ? [{ icon: Icon.Tag, text: itemTags.join(", "), tooltip: "Tags" }] : [];
+
+            const gitAccessories = getGitAccessories(gitStatuses[item.path]);
+            const accessories = [
+              ...sessionAccessories,
+              ...tagAccessories,
+              ...projectAccessories,
+              ...gitAccessories,
+              ...recentAccessories,
+            ];
+            const keywords = [...getRecentFolderKeywords(item, recentFolders), ...itemTags];
+
+            return (
+              <List.Item
+                key={item.path}
+                icon={icon}
+                title={item.name}
+                subtitle={
+                  isShowingAll
+                    ? getProjectBreadcrumb(item, root)
+                    : isNavigable
+                    ? `${item.path.split("/").pop()} (folder)`
+                    : isLeafFolder
+                    ? `${item.path} (empty folder)`
+                    : item.path
+                }
+                accessories={accessories}
+                keywords={keywords}
+                detail={
+                  isNavigable || isLeafFolder ? (
+                    <List.Item.Detail markdown={`## ${item.name}\n\n${isNavigable ? "Folder" : "Empty folder"}`} />
+                  ) : (
+                    <ProjectDetail project={item} />
+                  )
+                }
+                actions={
+                  <ActionPanel>
+                    {isNavigable ? (
+                      <Action
+                        title="Navigate to Folder"
+                        icon={Icon.ChevronRight}
+                        onAction={() => navigateInto(root, item)}
+                      />
+                    ) : (
+                      <ProjectActions
+                        project={item}
+                        historyEntry={historyEntry}
+                        onHistoryChange={refreshRecentFolders}
+                        onStarted={refreshLastScripts}
+                        gitStatus={gitStatuses[item.path]}
+                        onGitChange={revalidateGitStatuses}
+                        onTagsChange={revalidateTags}
+                      >
+                        {item.workspaceRoot && !isShowingAll && (
+                          <Action
+                            title="Browse Workspace Packages"
+                            icon={Icon.ChevronRight}
+                            shortcut={{ modifiers: ["cmd"], key: "arrowRight" }}
+                            onAction={() => navigateInto(root, item)}
+                          />
+                        )}
+                      </ProjectActions>
+                    )}
+                    {detailAction}
+                    {searchModeAction}
+                    {getCreateProjectAction(root)}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
     </List>
   );
 }
 
-export default function Command() {
-  return <ProjectNavigation />;
+/**
+ * Starts the project matching the command's argument, or lists the candidates when the match isn't unique
+ */
+function ProjectLauncher({ query }: { query: string }) {
+  const { data: matches, isLoading } = usePromise(findProjects, [query]);
+  const match = matches?.length === 1 ? matches[0] : null;
+
+  useEffect(() => {
+    if (match) {
+      launchProject(match).then(() => popToRoot({ clearSearchBar: true }));
+    } else if (matches?.length === 0) {
+      showToast({ style: Toast.Style.Failure, title: "No matching project", message: `Nothing matches "${query}"` });
+    }
+  }, [matches]);
+
+  if (isLoading || match) {
+    return <List isLoading navigationTitle={match ? `Starting ${match.name}` : `Finding ${query}...`} />;
+  }
+  return <ProjectNavigation initialSearchText={query} />;
+}
+
+export default function Command(props: LaunchProps<{ arguments: { project?: string } }>) {
+  const query = props.arguments.project?.trim();
+  return query ? <ProjectLauncher query={query} /> : <ProjectNavigation />;
 }
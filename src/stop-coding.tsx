@@ -0,0 +1,119 @@
+/**
+ * Lists the dev servers started by the workflow and stops them
+ *
+ * - Each session records its project, command, port and server PID (and tmux session with the tmux terminal)
+ * - Sessions are checked on open: the PID is resolved from the port listener once the server is up
+ * - Sessions whose server is gone are shown as stopped and can be removed
+ */
+
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { forgetSession, getSessions, SessionState, SessionStatus, stopSession } from "./utils/sessions";
+
+const SESSION_STATE_TAGS: Record<SessionState, { value: string; color: Color }> = {
+  running: { value: "running", color: Color.Green },
+  starting: { value: "starting", color: Color.Yellow },
+  stopped: { value: "stopped", color: Color.SecondaryText },
+};
+
+export default function Command() {
+  const { data: sessions = [], isLoading, revalidate } = useCachedPromise(getSessions);
+
+  const liveSessions = sessions.filter(({ state }) => state !== "stopped");
+
+  const stop = async (session: SessionStatus) => {
+    try {
+      await stopSession(session);
+      await showToast({ style: Toast.Style.Success, title: "Session stopped", message: session.projectName });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to stop session",
+        message: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+    revalidate();
+  };
+
+  const stopAll = async () => {
+    const confirmed = await confirmAlert({
+      title: "Stop all sessions?",
+      message: `${liveSessions.length} dev servers will be stopped.`,
+      primaryAction: { title: "Stop All", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    // One after another: each stop rewrites the stored sessions and journal
+    let failures = 0;
+    for (const session of sessions) {
+      try {
+        await stopSession(session);
+      } catch {
+        failures++;
+      }
+    }
+
+    await showToast(
+      failures > 0
+        ? { style: Toast.Style.Failure, title: `Failed to stop ${failures} sessions` }
+        : { style: Toast.Style.Success, title: "All sessions stopped" },
+    );
+    revalidate();
+  };
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search sessions...">
+      <List.EmptyView icon={Icon.Stop} title="No sessions" description="Dev servers you start will appear here" />
+      {sessions.map((session) => (
+        <List.Item
+          key={session.projectPath}
+          icon={session.state === "stopped" ? Icon.CircleDisabled : Icon.Play}
+          title={session.projectName}
+          subtitle={session.command}
+          accessories={[
+            ...(session.port ? [{ icon: Icon.Globe, text: session.port }] : []),
+            ...(session.pid !== null ? [{ text: `PID ${session.pid}` }] : []),
+            ...(session.tmuxSession
+              ? [{ icon: Icon.Terminal, text: session.tmuxSession, tooltip: "tmux session" }]
+              : []),
+            { date: new Date(session.startedAt), tooltip: "Started" },
+            { tag: SESSION_STATE_TAGS[session.state] },
+          ]}
+          actions={
+            <ActionPanel>
+              {session.state === "stopped" ? (
+                <Action
+                  title="Remove Session"
+                  icon={Icon.Trash}
+                  onAction={async () => {
+                    await forgetSession(session.projectPath);
+                    revalidate();
+                  }}
+                />
+              ) : (
+                <Action title="Stop Session" icon={Icon.Stop} onAction={() => stop(session)} />
+              )}
+              {liveSessions.length > 0 && (
+                <Action
+                  title="Stop All Sessions"
+                  icon={Icon.XMarkCircle}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                  onAction={stopAll}
+                />
+              )}
+              <Action.CopyToClipboard title="Copy Command" content={session.command} />
+              <Action.ShowInFinder title="Open in Finder" path={session.projectPath} />
+              <Action
+                title="Refresh"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={revalidate}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
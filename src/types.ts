@@ -0,0 +1,39 @@
+import { BrowserId } from "./utils/browsers";
+import { EditorId } from "./utils/editors";
+import { PackageManager } from "./utils/package-manager";
+import { ProjectConfig } from "./utils/project-config";
+import { ProjectKind } from "./utils/project-kinds";
+import { TerminalId } from "./utils/terminals";
+import { WorkspaceRoot } from "./utils/workspaces";
+
+export interface Project {
+  name: string;
+  path: string;
+  packageJsonPath: string | null; // Path to the folder's own package.json file
+  hasPackageJson: boolean;
+  kind: ProjectKind | null; // Detected project type ("node" for package.json folders, null for plain folders)
+  runCommand: string | null; // Default start command of non-Node projects (e.g. "cargo run")
+  packageManager: PackageManager | null; // Detected from package.json, lockfiles or the workspace root
+  port: string | null; // Port from .codesession.json, else detected from scripts, .env, framework config or defaults
+  portSource: string | null; // Where the port came from (e.g. "dev script", ".env.local", "Next default")
+  config: ProjectConfig | null; // Workflow settings from .codesession.json or package.json "codesession"
+  configError: string | null; // Why the workflow config is invalid (names the bad field)
+  hasValidSubfolders: boolean; // Whether folder has non-dot subfolders
+  isLeafFolder: boolean; // Whether this is a leaf folder (no detected project and no valid subfolders)
+  workspaceRoot: WorkspaceRoot | null; // Set when the folder is a monorepo root declaring workspaces
+  workspace: { root: WorkspaceRoot; packageName: string } | null; // Set for packages inside a monorepo
+}
+
+export interface Preferences {
+  devFolderPath: string; // Path to the development projects folder
+  additionalFolders?: string; // More project roots as comma-separated "Label=path" entries
+  ignorePatterns?: string; // Gitignore-style patterns for folders hidden from discovery
+  templatesFolderPath?: string; // Folder whose subfolders are the "Create New Project" templates
+  defaultPort: string; // Default port for development server
+  editor: EditorId; // Editor used to open projects (overridable per project)
+  browser: BrowserId; // Browser used to open project URLs
+  terminal: TerminalId; // Where the dev server runs (editor terminal, terminal app or tmux session)
+  serverTimeout: string; // Seconds to wait for a fresh dev server to respond before opening the browser
+  searchMaxDepth: string; // How many folder levels "Search All Projects" descends into
+  historySize: string; // How many folders the opening history keeps (pinned folders excluded)
+}
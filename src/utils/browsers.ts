@@ -0,0 +1,32 @@
+import { shellQuote } from "./quoting";
+
+export type BrowserId = "chrome" | "arc" | "safari" | "firefox" | "brave" | "default";
+
+/**
+ * macOS application names for each browser (`null` uses the system default browser)
+ */
+const BROWSER_APPS: Record<BrowserId, string | null> = {
+  chrome: "Google Chrome",
+  arc: "Arc",
+  safari: "Safari",
+  firefox: "Firefox",
+  brave: "Brave Browser",
+  default: null,
+};
+
+/**
+ * Display name of a browser for toasts and comments
+ */
+export const getBrowserName = (browser: BrowserId | undefined): string => {
+  return BROWSER_APPS[browser ?? "chrome"] ?? "default browser";
+};
+
+/**
+ * Builds the shell command that opens a URL in the chosen browser
+ * @param browser - Browser preference (defaults to Chrome)
+ * @param url - URL to open
+ */
+export const getOpenUrlCommand = (browser: BrowserId | undefined, url: string): string => {
+  const appName = BROWSER_APPS[browser ?? "chrome"];
+  return appName ? `open -a ${shellQuote(appName)} ${shellQuote(url)}` : `open ${shellQuote(url)}`;
+};
@@ -0,0 +1,85 @@
+import { shellQuote } from "./quoting";
+
+export type EditorId = "cursor" | "vscode" | "windsurf" | "zed" | "webstorm";
+
+/**
+ * Describes how the workflow drives an editor through AppleScript
+ */
+export interface EditorAdapter {
+  id: EditorId;
+  name: string; // Display name used in action titles and toasts
+  appName: string; // macOS application name (for `open -a` and `tell application`)
+  openFolderCommand: (folderPath: string) => string; // Shell command that opens a folder in the editor
+  openTerminalScript: string; // AppleScript that opens and focuses the integrated terminal
+}
+
+/**
+ * Opens the integrated terminal through the command palette (VS Code and its forks)
+ */
+const commandPaletteTerminalScript = (command: string): string => `
+    tell application "System Events"
+      keystroke "p" using {command down, shift down} -- Open Command Palette
+      delay 0.5
+      keystroke "${command}" -- Type command
+      delay 0.3
+      key code 36 -- Press Enter
+      delay 1
+    end tell
+`;
+
+const openWithApp = (appName: string) => (folderPath: string) =>
+  `open -a ${shellQuote(appName)} ${shellQuote(folderPath)}`;
+
+export const EDITORS: Record<EditorId, EditorAdapter> = {
+  cursor: {
+    id: "cursor",
+    name: "Cursor",
+    appName: "Cursor",
+    openFolderCommand: openWithApp("Cursor"),
+    openTerminalScript: commandPaletteTerminalScript("View: Toggle Terminal"),
+  },
+  vscode: {
+    id: "vscode",
+    name: "VS Code",
+    appName: "Visual Studio Code",
+    openFolderCommand: openWithApp("Visual Studio Code"),
+    openTerminalScript: commandPaletteTerminalScript("View: Toggle Terminal"),
+  },
+  windsurf: {
+    id: "windsurf",
+    name: "Windsurf",
+    appName: "Windsurf",
+    openFolderCommand: openWithApp("Windsurf"),
+    openTerminalScript: commandPaletteTerminalScript("View: Toggle Terminal"),
+  },
+  zed: {
+    id: "zed",
+    name: "Zed",
+    appName: "Zed",
+    openFolderCommand: openWithApp("Zed"),
+    openTerminalScript: commandPaletteTerminalScript("terminal panel: toggle focus"),
+  },
+  webstorm: {
+    id: "webstorm",
+    name: "WebStorm",
+    appName: "WebStorm",
+    openFolderCommand: openWithApp("WebStorm"),
+    openTerminalScript: `
+    tell application "System Events"
+      key code 111 using {option down} -- Option + F12 opens the Terminal tool window
+      delay 1
+    end tell
+`,
+  },
+};
+
+export const EDITOR_IDS = Object.keys(EDITORS) as EditorId[];
+
+/**
+ * Resolves the editor for a project
+ * @param override - Per-project editor from the workflow config
+ * @param preferred - Editor chosen in the extension preferences
+ */
+export const getEditor = (override: EditorId | undefined, preferred: EditorId | undefined): EditorAdapter => {
+  return EDITORS[override ?? preferred ?? "cursor"] ?? EDITORS.cursor;
+};
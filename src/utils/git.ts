@@ -0,0 +1,137 @@
+import { Color, Icon, List } from "@raycast/api";
+import { execFile } from "child_process";
+import { realpath } from "fs/promises";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * How many folders have their git status read at once (search-all mode lists hundreds of folders)
+ */
+const MAX_CONCURRENT_STATUSES = 8;
+
+export interface GitStatus {
+  branch: string | null; // Current branch, null when HEAD is detached
+  dirty: boolean; // Uncommitted or untracked changes
+  ahead: number; // Commits not pushed to the upstream branch
+  behind: number; // Upstream commits not pulled yet
+  hasUpstream: boolean;
+}
+
+/**
+ * Run a git command in a folder
+ * @throws Error with git's stderr when the command fails
+ */
+const git = async (folderPath: string, args: string[]): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync("git", ["-C", folderPath, ...args], { encoding: "utf8" });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error instanceof Error ? error.message : "git command failed"));
+  }
+};
+
+/**
+ * Read branch, dirty state and ahead/behind counts of a folder's git repository
+ * Only repositories rooted at the folder (or at its monorepo root) count, so a plain folder inside another
+ * repository (e.g. a dev folder under a home-directory repo) shows nothing
+ * @param repoRoot - Monorepo root of a workspace package, also accepted as the repository's top level
+ * @returns Git status, or null when the folder isn't the top level of a git repository
+ */
+export const getGitStatus = async (folderPath: string, repoRoot: string | null = null): Promise<GitStatus | null> => {
+  try {
+    const topLevel = (await git(folderPath, ["rev-parse", "--show-toplevel"])).trim();
+    // git reports the resolved path, so symlinked dev folders are resolved too
+    const acceptedRoots = await Promise.all(
+      [folderPath, ...(repoRoot ? [repoRoot] : [])].map((path) => realpath(path).catch(() => path)),
+    );
+    if (!acceptedRoots.includes(topLevel)) return null;
+
+    const output = await git(folderPath, ["status", "--porcelain=v2", "--branch"]);
+    const lines = output.split("\n").filter(Boolean);
+
+    const head = lines.find((line) => line.startsWith("# branch.head "))?.slice("# branch.head ".length);
+    const aheadBehind = lines.find((line) => line.startsWith("# branch.ab "))?.match(/\+(\d+) -(\d+)/);
+
+    return {
+      branch: head && head !== "(detached)" ? head : null,
+      dirty: lines.some((line) => !line.startsWith("#")),
+      ahead: aheadBehind ? Number(aheadBehind[1]) : 0,
+      behind: aheadBehind ? Number(aheadBehind[2]) : 0,
+      hasUpstream: lines.some((line) => line.startsWith("# branch.upstream ")),
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the git status of several folders, a few at a time
+ * @returns Git status per folder path
+ */
+export const getGitStatuses = async (
+  folders: Array<{ path: string; repoRoot: string | null }>,
+): Promise<Record<string, GitStatus | null>> => {
+  const statuses: Record<string, GitStatus | null> = {};
+  const queue = [...folders];
+
+  const worker = async () => {
+    for (let folder = queue.shift(); folder; folder = queue.shift()) {
+      statuses[folder.path] = await getGitStatus(folder.path, folder.repoRoot);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_STATUSES, folders.length) }, worker));
+  return statuses;
+};
+
+/**
+ * List local branches, most recently committed first
+ */
+export const listLocalBranches = async (folderPath: string): Promise<string[]> => {
+  const output = await git(folderPath, [
+    "for-each-ref",
+    "--sort=-committerdate",
+    "--format=%(refname:short)",
+    "refs/heads",
+  ]);
+  return output.split("\n").filter(Boolean);
+};
+
+/**
+ * Check out a local branch
+ */
+export const switchBranch = async (folderPath: string, branch: string): Promise<void> => {
+  await git(folderPath, ["switch", branch]);
+};
+
+/**
+ * Fast-forward the current branch to its upstream
+ */
+export const pullLatest = async (folderPath: string): Promise<void> => {
+  await git(folderPath, ["pull", "--ff-only"]);
+};
+
+/**
+ * List accessories for a git status: branch, dirty/clean indicator and ahead/behind counts
+ */
+export const getGitAccessories = (status: GitStatus | null | undefined): List.Item.Accessory[] => {
+  if (!status) return [];
+
+  const accessories: List.Item.Accessory[] = [
+    { icon: Icon.Switch, text: status.branch ?? "detached", tooltip: "Current branch" },
+    status.dirty
+      ? { icon: { source: Icon.CircleFilled, tintColor: Color.Orange }, tooltip: "Uncommitted changes" }
+      : { icon: { source: Icon.CheckCircle, tintColor: Color.Green }, tooltip: "Clean" },
+  ];
+
+  if (status.ahead > 0 || status.behind > 0) {
+    const counts = [status.ahead > 0 ? `↑${status.ahead}` : "", status.behind > 0 ? `↓${status.behind}` : ""];
+    accessories.push({
+      text: counts.filter(Boolean).join(" "),
+      tooltip: `${status.ahead} ahead, ${status.behind} behind`,
+    });
+  }
+
+  return accessories;
+};
@@ -0,0 +1,229 @@
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { Preferences, Project } from "../types";
+import { startJournalEntry } from "./journal";
+
+/**
+ * A folder in the opening history, ranked by frecency (open count decayed over time)
+ */
+export interface HistoryEntry {
+  path: string;
+  timestamp: number; // Last time the folder was opened
+  count: number; // Total number of opens
+  score: number; // Frecency score as of `timestamp`
+  pinned: boolean; // Pinned folders always sort first and are never trimmed
+}
+
+/**
+ * Time for an open to lose half of its weight in the frecency score
+ */
+const FRECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_HISTORY_SIZE = 50;
+
+/**
+ * Current frecency score of a history entry
+ */
+export const getFrecency = (entry: HistoryEntry, now: number = Date.now()): number => {
+  return entry.score * 0.5 ** ((now - entry.timestamp) / FRECENCY_HALF_LIFE_MS);
+};
+
+/**
+ * Read the stored history, upgrading entries saved before frecency tracking
+ */
+const readHistory = async (): Promise<HistoryEntry[]> => {
+  const recentFoldersJson = await LocalStorage.getItem<string>("recentFolders");
+  if (!recentFoldersJson) return [];
+
+  const entries: Array<Partial<HistoryEntry> & { path: string; timestamp: number }> = JSON.parse(recentFoldersJson);
+  return entries.map((entry) => ({
+    path: entry.path,
+    timestamp: entry.timestamp,
+    count: entry.count ?? 1,
+    score: entry.score ?? 1,
+    pinned: entry.pinned ?? false,
+  }));
+};
+
+/**
+ * Store the history, keeping pinned folders plus the highest-ranked others up to the configured size
+ */
+const writeHistory = async (entries: HistoryEntry[]): Promise<void> => {
+  const preferences = getPreferenceValues<Preferences>();
+  const historySize = Number(preferences.historySize) || DEFAULT_HISTORY_SIZE;
+
+  const now = Date.now();
+  const pinned = entries.filter((entry) => entry.pinned);
+  const ranked = entries
+    .filter((entry) => !entry.pinned)
+    .sort((a, b) => getFrecency(b, now) - getFrecency(a, now))
+    .slice(0, historySize);
+
+  await LocalStorage.setItem("recentFolders", JSON.stringify([...pinned, ...ranked]));
+};
+
+/**
+ * Update the history and notify the caller, logging failures
+ */
+const updateHistory = async (
+  update: (entries: HistoryEntry[]) => HistoryEntry[],
+  onUpdate?: () => void,
+): Promise<void> => {
+  try {
+    await writeHistory(update(await readHistory()));
+
+    // Call the update callback if provided
+    if (onUpdate) {
+      onUpdate();
+    }
+  } catch (error) {
+    console.error("Error updating history:", error);
+  }
+};
+
+/**
+ * Track when a folder is opened (also starting its entry in the session journal)
+ */
+export const trackFolderOpened = async (folderPath: string, onUpdate?: () => void): Promise<void> => {
+  await startJournalEntry(folderPath);
+
+  return updateHistory((entries) => {
+    const now = Date.now();
+    const existing = entries.find((entry) => entry.path === folderPath);
+
+    const updatedEntry: HistoryEntry = {
+      path: folderPath,
+      timestamp: now,
+      count: (existing?.count ?? 0) + 1,
+      score: (existing ? getFrecency(existing, now) : 0) + 1,
+      pinned: existing?.pinned ?? false,
+    };
+
+    return [updatedEntry, ...entries.filter((entry) => entry.path !== folderPath)];
+  }, onUpdate);
+};
+
+/**
+ * Remove a folder from the history
+ */
+export const removeFromHistory = (folderPath: string, onUpdate?: () => void): Promise<void> => {
+  return updateHistory((entries) => entries.filter((entry) => entry.path !== folderPath), onUpdate);
+};
+
+/**
+ * Clear the history (pinned folders are kept)
+ */
+export const clearHistory = (onUpdate?: () => void): Promise<void> => {
+  return updateHistory((entries) => entries.filter((entry) => entry.pinned), onUpdate);
+};
+
+/**
+ * Pin or unpin a folder, adding it to the history if needed
+ */
+export const setPinned = (folderPath: string, pinned: boolean, onUpdate?: () => void): Promise<void> => {
+  return updateHistory((entries) => {
+    const existing = entries.find((entry) => entry.path === folderPath);
+    if (existing) {
+      return entries.map((entry) => (entry.path === folderPath ? { ...entry, pinned } : entry));
+    }
+    return [...entries, { path: folderPath, timestamp: Date.now(), count: 0, score: 0, pinned }];
+  }, onUpdate);
+};
+
+/**
+ * Get the opening history keyed by folder path
+ */
+export const getHistory = async (): Promise<Map<string, HistoryEntry>> => {
+  try {
+    const entries = await readHistory();
+    return new Map(entries.map((entry) => [entry.path, entry]));
+  } catch (error) {
+    console.error("Error getting history:", error);
+    return new Map();
+  }
+};
+
+/**
+ * Get the most recently opened folder (pinned folders that were never opened don't count)
+ */
+export const getLastOpenedFolder = async (): Promise<HistoryEntry | null> => {
+  const history = await getHistory();
+  const opened = [...history.values()].filter((entry) => entry.count > 0);
+  return opened.reduce<HistoryEntry | null>(
+    (latest, entry) => (!latest || entry.timestamp > latest.timestamp ? entry : latest),
+    null,
+  );
+};
+
+/**
+ * Get keywords for recent folders to improve search ranking
+ * This helps recently opened folders appear higher in Raycast search
+ */
+export const getRecentFolderKeywords = (project: Project, history: Map<string, HistoryEntry>): string[] => {
+  const entry = history.get(project.path);
+  if (!entry) return [];
+
+  const pinnedKeywords = entry.pinned ? ["pinned"] : [];
+  if (entry.count === 0) return pinnedKeywords;
+
+  const ageInHours = (Date.now() - entry.timestamp) / (1000 * 60 * 60);
+
+  // Add search boost keywords based on recency
+  if (ageInHours < 1) return [...pinnedKeywords, "🔥 hot", "recent", "opened"]; // Last hour
+  if (ageInHours < 6) return [...pinnedKeywords, "recent", "opened"]; // Last 6 hours
+  if (ageInHours < 24) return [...pinnedKeywords, "recent"]; // Last day
+  if (ageInHours < 72) return [...pinnedKeywords, "opened"]; // Last 3 days
+  return pinnedKeywords; // Older folders
+};
+
+/**
+ * Sort items by usage: pinned folders first, then by frecency, then by name
+ */
+export const sortItemsByRecentUsage = (items: Project[], history: Map<string, HistoryEntry>): Project[] => {
+  const now = Date.now();
+
+  return [...items].sort((a, b) => {
+    const aEntry = history.get(a.path);
+    const bEntry = history.get(b.path);
+
+    if (Boolean(aEntry?.pinned) !== Boolean(bEntry?.pinned)) {
+      return aEntry?.pinned ? -1 : 1;
+    }
+
+    const aScore = aEntry ? getFrecency(aEntry, now) : 0;
+    const bScore = bEntry ? getFrecency(bEntry, now) : 0;
+    if (aScore !== bScore) {
+      return bScore - aScore; // Highest frecency first
+    }
+    return a.name.localeCompare(b.name);
+  });
+};
+
+/**
+ * Get the last package.json script used for each project
+ */
+export const getLastScripts = async (): Promise<Map<string, string>> => {
+  try {
+    const lastScriptsJson = await LocalStorage.getItem<string>("lastScripts");
+    if (!lastScriptsJson) return new Map();
+
+    const lastScripts: Record<string, string> = JSON.parse(lastScriptsJson);
+    return new Map(Object.entries(lastScripts));
+  } catch (error) {
+    console.error("Error getting last scripts:", error);
+    return new Map();
+  }
+};
+
+/**
+ * Remember the package.json script used for a project
+ */
+export const saveLastScript = async (projectPath: string, script: string): Promise<void> => {
+  try {
+    const lastScripts = await getLastScripts();
+    lastScripts.set(projectPath, script);
+
+    await LocalStorage.setItem("lastScripts", JSON.stringify(Object.fromEntries(lastScripts)));
+  } catch (error) {
+    console.error("Error saving last script:", error);
+  }
+};
@@ -0,0 +1,74 @@
+import { relative, sep } from "path";
+
+/**
+ * Gitignore-style patterns applied to the folders below a root
+ */
+export interface IgnoreRules {
+  rootPath: string; // Patterns containing a "/" are matched against the path relative to this folder
+  patterns: string[];
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  negated: boolean;
+}
+
+const compiledPatterns = new Map<string, CompiledPattern>();
+
+/**
+ * Splits a comma or newline separated pattern list, dropping blanks and `#` comments
+ * @example parseIgnorePatterns("node_modules, archive/*, !archive/keep") // ["node_modules", "archive/*", "!archive/keep"]
+ */
+export const parseIgnorePatterns = (value: string | undefined): string[] => {
+  return (value ?? "")
+    .split(/[,\n]/)
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern && !pattern.startsWith("#"));
+};
+
+/**
+ * Converts a gitignore pattern to a regular expression over "/"-separated relative paths
+ * - Without a "/" (other than a trailing one) it matches a folder name at any depth
+ * - With a "/" it is anchored to the root; `*` and `?` stay within a segment, `**` spans segments
+ */
+const compilePattern = (pattern: string): CompiledPattern => {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) return cached;
+
+  const negated = pattern.startsWith("!");
+  const body = pattern.replace(/^!/, "").replace(/\/+$/, "");
+  const anchored = body.includes("/");
+
+  const source = body
+    .replace(/^\//, "")
+    .split(/(\*\*\/|\/\*\*|\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "/**") return "(?:/.*)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  // A matching folder also hides everything below it
+  const compiled = { regex: new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}(?:/.*)?$`), negated };
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+};
+
+/**
+ * Whether a folder is ignored by the rules (the last matching pattern wins, so `!pattern` re-includes)
+ */
+export const isIgnored = (rules: IgnoreRules | null, folderPath: string): boolean => {
+  if (!rules || rules.patterns.length === 0) return false;
+
+  const relativePath = relative(rules.rootPath, folderPath).split(sep).join("/");
+  if (!relativePath || relativePath.startsWith("..")) return false;
+
+  return rules.patterns.reduce((ignored, pattern) => {
+    const { regex, negated } = compilePattern(pattern);
+    return regex.test(relativePath) ? !negated : ignored;
+  }, false);
+};
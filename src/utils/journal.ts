@@ -0,0 +1,167 @@
+import { LocalStorage } from "@raycast/api";
+import { basename } from "path";
+
+/**
+ * A stretch of time spent on one project, from opening it until it was stopped or another project was opened
+ */
+export interface JournalEntry {
+  projectPath: string;
+  start: number;
+  end: number | null; // Null while the project is still being worked on
+}
+
+/**
+ * Time spent on a project within a period
+ */
+export interface ProjectTime {
+  projectPath: string;
+  projectName: string;
+  duration: number; // Milliseconds
+}
+
+/**
+ * An entry left open (e.g. the server was never stopped through Raycast) counts for at most this long
+ */
+const MAX_OPEN_ENTRY_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Entries older than this are dropped from the journal
+ */
+const JOURNAL_RETENTION_MS = 365 * 24 * 60 * 60 * 1000;
+
+const JOURNAL_KEY = "sessionJournal";
+
+const readJournal = async (): Promise<JournalEntry[]> => {
+  const journalJson = await LocalStorage.getItem<string>(JOURNAL_KEY);
+  return journalJson ? JSON.parse(journalJson) : [];
+};
+
+const writeJournal = async (entries: JournalEntry[]): Promise<void> => {
+  const cutoff = Date.now() - JOURNAL_RETENTION_MS;
+  await LocalStorage.setItem(JOURNAL_KEY, JSON.stringify(entries.filter(({ start }) => start >= cutoff)));
+};
+
+/**
+ * When an entry stops counting: its end, or for an open entry now (capped at MAX_OPEN_ENTRY_MS)
+ */
+const getEntryEnd = (entry: JournalEntry, now: number): number => {
+  return entry.end ?? Math.min(now, entry.start + MAX_OPEN_ENTRY_MS);
+};
+
+/**
+ * Update the journal, logging failures so tracking never breaks the workflow
+ */
+const updateJournal = async (update: (entries: JournalEntry[], now: number) => JournalEntry[]): Promise<void> => {
+  try {
+    await writeJournal(update(await readJournal(), Date.now()));
+  } catch (error) {
+    console.error("Error updating session journal:", error);
+  }
+};
+
+/**
+ * Start a journal entry for a project, ending the entry of the project worked on before
+ * Reopening the project that is already open keeps its entry running
+ */
+export const startJournalEntry = (projectPath: string): Promise<void> => {
+  return updateJournal((entries, now) => {
+    const open = entries.find((entry) => entry.end === null);
+    if (open?.projectPath === projectPath && getEntryEnd(open, now) === now) return entries;
+
+    const closed = entries.map((entry) => (entry.end === null ? { ...entry, end: getEntryEnd(entry, now) } : entry));
+    return [...closed, { projectPath, start: now, end: null }];
+  });
+};
+
+/**
+ * End a project's open journal entry (when its session is stopped)
+ */
+export const endJournalEntry = (projectPath: string): Promise<void> => {
+  return updateJournal((entries, now) =>
+    entries.map((entry) =>
+      entry.end === null && entry.projectPath === projectPath ? { ...entry, end: getEntryEnd(entry, now) } : entry,
+    ),
+  );
+};
+
+/**
+ * Get the journal, oldest entry first
+ */
+export const getJournal = async (): Promise<JournalEntry[]> => {
+  try {
+    return await readJournal();
+  } catch (error) {
+    console.error("Error reading session journal:", error);
+    return [];
+  }
+};
+
+/**
+ * Time spent per project between `from` and `to`, longest first
+ * Entries spanning the period boundaries only count for the part inside it
+ */
+export const getTimePerProject = (
+  entries: JournalEntry[],
+  from: number,
+  to: number,
+  now: number = Date.now(),
+): ProjectTime[] => {
+  const durations = new Map<string, number>();
+
+  for (const entry of entries) {
+    const duration = Math.min(getEntryEnd(entry, now), to) - Math.max(entry.start, from);
+    if (duration > 0) {
+      durations.set(entry.projectPath, (durations.get(entry.projectPath) ?? 0) + duration);
+    }
+  }
+
+  return [...durations]
+    .map(([projectPath, duration]) => ({ projectPath, projectName: basename(projectPath), duration }))
+    .sort((a, b) => b.duration - a.duration);
+};
+
+/**
+ * Format a duration as hours and minutes
+ * @example formatDuration(5_400_000) // "1h 30m"
+ */
+export const formatDuration = (duration: number): string => {
+  const minutes = Math.round(duration / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+};
+
+/**
+ * Journal as JSON, with ISO dates and durations in seconds
+ */
+export const journalToJson = (entries: JournalEntry[], now: number = Date.now()): string => {
+  const rows = entries.map((entry) => {
+    const end = getEntryEnd(entry, now);
+    return {
+      project: basename(entry.projectPath),
+      path: entry.projectPath,
+      start: new Date(entry.start).toISOString(),
+      end: entry.end === null ? null : new Date(end).toISOString(),
+      durationSeconds: Math.round((end - entry.start) / 1000),
+    };
+  });
+  return `${JSON.stringify(rows, null, 2)}\n`;
+};
+
+/**
+ * Journal as CSV (project, path, start, end, duration in seconds); open entries have an empty end
+ */
+export const journalToCsv = (entries: JournalEntry[], now: number = Date.now()): string => {
+  const quote = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const rows = entries.map((entry) => {
+    const end = getEntryEnd(entry, now);
+    return [
+      quote(basename(entry.projectPath)),
+      quote(entry.projectPath),
+      new Date(entry.start).toISOString(),
+      entry.end === null ? "" : new Date(end).toISOString(),
+      String(Math.round((end - entry.start) / 1000)),
+    ].join(",");
+  });
+  return `${["project,path,start,end,duration_seconds", ...rows].join("\n")}\n`;
+};
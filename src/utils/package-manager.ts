@@ -0,0 +1,99 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+const PACKAGE_MANAGERS: PackageManager[] = ["npm", "pnpm", "yarn", "bun"];
+
+/**
+ * Lockfiles checked in priority order (first match wins)
+ */
+const LOCKFILES: Array<{ file: string; packageManager: PackageManager }> = [
+  { file: "pnpm-lock.yaml", packageManager: "pnpm" },
+  { file: "yarn.lock", packageManager: "yarn" },
+  { file: "package-lock.json", packageManager: "npm" },
+  { file: "bun.lock", packageManager: "bun" },
+  { file: "bun.lockb", packageManager: "bun" },
+];
+
+/**
+ * Names of all supported lockfiles
+ */
+export const LOCKFILE_NAMES = LOCKFILES.map(({ file }) => file);
+
+/**
+ * Reads the `packageManager` field (e.g. "pnpm@9.1.0") from a package.json file
+ * @param packageJsonPath - Path to package.json file
+ * @returns Package manager name or null if the field is missing or unknown
+ */
+const readPackageManagerField = (packageJsonPath: string): PackageManager | null => {
+  try {
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+    if (typeof packageJson.packageManager !== "string") return null;
+
+    const name = packageJson.packageManager.split("@")[0];
+    return PACKAGE_MANAGERS.find((packageManager) => packageManager === name) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Finds the lockfile in a single directory
+ * @returns Lockfile name (e.g. "pnpm-lock.yaml") or null if there is none
+ */
+export const findLockfile = (folderPath: string): string | null => {
+  return LOCKFILES.find(({ file }) => existsSync(join(folderPath, file)))?.file ?? null;
+};
+
+/**
+ * Detects the package manager from lockfiles in a single directory
+ */
+const detectFromLockfiles = (folderPath: string): PackageManager | null => {
+  const lockfile = findLockfile(folderPath);
+  return LOCKFILES.find(({ file }) => file === lockfile)?.packageManager ?? null;
+};
+
+/**
+ * Detects the package manager of a project
+ *
+ * Resolution order:
+ * 1. `packageManager` field of the project's package.json
+ * 2. Lockfiles in the project directory
+ * 3. Walking up to the workspace root (stops at the repository root or filesystem root)
+ *
+ * @param projectPath - Project directory
+ * @param packageJsonPath - Path to the project's package.json (may be in a parent directory)
+ * @returns Detected package manager or null if nothing points to one
+ */
+export const detectPackageManager = (projectPath: string, packageJsonPath: string | null): PackageManager | null => {
+  const fromField = packageJsonPath ? readPackageManagerField(packageJsonPath) : null;
+  if (fromField) return fromField;
+
+  let currentPath = projectPath;
+  while (true) {
+    const fromLockfile = detectFromLockfiles(currentPath);
+    if (fromLockfile) return fromLockfile;
+
+    if (currentPath !== projectPath) {
+      const fromParentField = readPackageManagerField(join(currentPath, "package.json"));
+      if (fromParentField) return fromParentField;
+    }
+
+    // Don't leave the repository the project belongs to
+    if (existsSync(join(currentPath, ".git"))) return null;
+
+    const parentPath = dirname(currentPath);
+    if (parentPath === currentPath) return null;
+    currentPath = parentPath;
+  }
+};
+
+/**
+ * Builds the shell command that runs a package.json script
+ * @param packageManager - Package manager to use (defaults to npm when unknown)
+ * @param script - Script name from package.json
+ */
+export const getRunScriptCommand = (packageManager: PackageManager | null, script: string): string => {
+  return `${packageManager ?? "npm"} run ${script}`;
+};
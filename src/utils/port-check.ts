@@ -0,0 +1,137 @@
+import { execSync } from "child_process";
+import { get } from "http";
+import { createConnection, createServer } from "net";
+import { sep } from "path";
+
+export interface PortListener {
+  pid: number;
+  command: string; // Process name as reported by lsof
+  cwd: string | null; // Working directory of the process
+}
+
+export type PortStatus = { inUse: false } | { inUse: true; ownedByProject: boolean; listener: PortListener | null };
+
+/**
+ * Checks whether something accepts connections on a local port
+ */
+const isPortListening = (port: number, host: string): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const socket = createConnection({ port, host });
+    const finish = (listening: boolean) => {
+      socket.destroy();
+      resolve(listening);
+    };
+
+    socket.setTimeout(500);
+    socket.once("connect", () => finish(true));
+    socket.once("timeout", () => finish(false));
+    socket.once("error", () => finish(false));
+  });
+};
+
+/**
+ * Checks whether a local port can be bound
+ */
+const isPortFree = (port: number): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const server = createServer();
+    server.once("error", () => resolve(false));
+    server.once("listening", () => server.close(() => resolve(true)));
+    server.listen(port, "127.0.0.1");
+  });
+};
+
+/**
+ * Finds the processes listening on a port using lsof
+ */
+const getPortListeners = (port: number): PortListener[] => {
+  try {
+    const pids = execSync(`lsof -nP -iTCP:${port} -sTCP:LISTEN -t`, { encoding: "utf8" })
+      .split("\n")
+      .map((line) => Number(line.trim()))
+      .filter((pid) => pid > 0);
+
+    return [...new Set(pids)].map((pid) => {
+      // -Fcn prints "c<command>" and "n<cwd>" lines for the process working directory
+      const output = execSync(`lsof -a -p ${pid} -d cwd -Fcn`, { encoding: "utf8" });
+      const lines = output.split("\n");
+
+      return {
+        pid,
+        command: lines.find((line) => line.startsWith("c"))?.slice(1) ?? "unknown",
+        cwd: lines.find((line) => line.startsWith("n"))?.slice(1) ?? null,
+      };
+    });
+  } catch {
+    // lsof exits with 1 when nothing matches
+    return [];
+  }
+};
+
+/**
+ * Probes a local port and figures out whether its listener belongs to the project
+ * @param port - Port to probe
+ * @param projectPath - Project directory; a listener running from inside it is considered this project's server
+ */
+export const checkPort = async (port: number, projectPath: string): Promise<PortStatus> => {
+  const listening = (await isPortListening(port, "127.0.0.1")) || (await isPortListening(port, "::1"));
+  if (!listening) return { inUse: false };
+
+  const listeners = getPortListeners(port);
+  const projectListener = listeners.find(
+    ({ cwd }) => cwd !== null && (cwd === projectPath || cwd.startsWith(`${projectPath}${sep}`)),
+  );
+
+  return {
+    inUse: true,
+    ownedByProject: projectListener !== undefined,
+    listener: projectListener ?? listeners[0] ?? null,
+  };
+};
+
+/**
+ * Finds the next free local port after the given one
+ * @returns Free port, or null if none was found within the search range
+ */
+export const findFreePort = async (startPort: number, range: number = 100): Promise<number | null> => {
+  for (let port = startPort + 1; port <= Math.min(startPort + range, 65535); port++) {
+    if ((await isPortFree(port)) && !(await isPortListening(port, "::1"))) return port;
+  }
+  return null;
+};
+
+/**
+ * Checks whether a URL answers with any HTTP response (error statuses count: the server is up)
+ */
+const hasHttpResponse = (url: string): Promise<boolean> => {
+  return new Promise((resolve) => {
+    const request = get(url, { timeout: 2000 }, (response) => {
+      response.resume();
+      resolve(true);
+    });
+    request.once("timeout", () => request.destroy());
+    request.once("error", () => resolve(false));
+  });
+};
+
+/**
+ * Polls a URL once per second until it answers or the timeout is hit
+ * @param onProgress - Called with the elapsed seconds after each unanswered attempt
+ * @returns Whether the server responded before the timeout
+ */
+export const waitForHttpResponse = async (
+  url: string,
+  timeoutSeconds: number,
+  onProgress?: (elapsedSeconds: number) => void,
+): Promise<boolean> => {
+  const startedAt = Date.now();
+
+  while (!(await hasHttpResponse(url))) {
+    const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+    if (elapsedSeconds >= timeoutSeconds) return false;
+
+    onProgress?.(elapsedSeconds);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  return true;
+};
@@ -0,0 +1,150 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, join } from "path";
+
+export interface DetectedPort {
+  port: string;
+  source: string; // Where the port came from, shown next to the port in the list
+}
+
+/**
+ * Port flags and URLs commonly found in dev scripts
+ */
+const SCRIPT_PORT_PATTERNS = [
+  /--port[\s=]+(\d+)/,
+  /(?:^|\s)-p[\s=]+(\d+)/,
+  /\bPORT=(\d+)/,
+  /localhost:(\d+)/,
+  /127\.0\.0\.1:(\d+)/,
+  /0\.0\.0\.0:(\d+)/,
+];
+
+/**
+ * Env files checked for `PORT=`, most specific first
+ */
+const ENV_FILES = [".env.development.local", ".env.local", ".env.development", ".env"];
+
+/**
+ * Framework config files that may declare a dev server port
+ */
+const CONFIG_FILES = ["vite", "next", "astro", "nuxt", "svelte"].flatMap((name) =>
+  ["ts", "mts", "js", "mjs", "cjs"].map((extension) => `${name}.config.${extension}`),
+);
+
+/**
+ * Files read for a port, relative to the project folder
+ */
+export const PORT_SOURCE_FILES = [...ENV_FILES, ...CONFIG_FILES];
+
+/**
+ * Default dev server ports, keyed by the CLI used in scripts and the package that provides it
+ */
+const FRAMEWORK_DEFAULTS: Array<{ name: string; bin: string; dependency: string; port: string }> = [
+  { name: "Next", bin: "next", dependency: "next", port: "3000" },
+  { name: "Nuxt", bin: "nuxt", dependency: "nuxt", port: "3000" },
+  { name: "Astro", bin: "astro", dependency: "astro", port: "4321" },
+  { name: "Storybook", bin: "storybook", dependency: "storybook", port: "6006" },
+  { name: "Angular", bin: "ng", dependency: "@angular/cli", port: "4200" },
+  { name: "Gatsby", bin: "gatsby", dependency: "gatsby", port: "8000" },
+  { name: "Remix", bin: "remix", dependency: "@remix-run/dev", port: "5173" },
+  { name: "Create React App", bin: "react-scripts", dependency: "react-scripts", port: "3000" },
+  { name: "Vite", bin: "vite", dependency: "vite", port: "5173" },
+];
+
+const matchPort = (text: string, patterns: RegExp[]): string | null => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match && match[1]) return match[1];
+  }
+  return null;
+};
+
+const readFile = (filePath: string): string | null => {
+  try {
+    return existsSync(filePath) ? readFileSync(filePath, "utf8") : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolves the command lines a script runs, following `npm run x`, `pnpm x`-style references to other scripts
+ */
+const collectScriptCommands = (
+  scripts: Record<string, string>,
+  script: string,
+  visited = new Set<string>(),
+): string[] => {
+  const command = scripts[script];
+  if (typeof command !== "string" || visited.has(script)) return [];
+  visited.add(script);
+
+  const referenced = [...command.matchAll(/\b(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?([\w:.-]+)/g)]
+    .map((match) => match[1])
+    .filter((name) => name in scripts);
+
+  return [command, ...referenced.flatMap((name) => collectScriptCommands(scripts, name, visited))];
+};
+
+/**
+ * Finds `PORT=` in the project's env files
+ * @returns The port with the env file it came from, or null if no env file sets one
+ */
+export const detectEnvPort = (projectPath: string): DetectedPort | null => {
+  for (const envFile of ENV_FILES) {
+    const content = readFile(join(projectPath, envFile));
+    const port = content ? matchPort(content, [/^\s*(?:export\s+)?PORT\s*=\s*["']?(\d+)/m]) : null;
+    if (port) return { port, source: envFile };
+  }
+  return null;
+};
+
+/**
+ * Detects the port a project's dev server listens on
+ *
+ * Resolution order:
+ * 1. Port flags/URLs in the script being run (and scripts it calls)
+ * 2. `PORT=` in `.env` files
+ * 3. `port:` in framework config files (vite, next, astro, ...)
+ * 4. Framework defaults, from the CLI in the script, then from dependencies
+ *
+ * @param projectPath - Project directory
+ * @param packageJsonPath - Path to the project's package.json
+ * @param script - Script that will be run (e.g. "dev")
+ * @returns Detected port with its source, or null if nothing points to one
+ */
+export const detectPort = (projectPath: string, packageJsonPath: string, script: string): DetectedPort | null => {
+  let packageJson: {
+    scripts?: Record<string, string>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+  try {
+    packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+  } catch (error) {
+    console.error(`Error reading package.json at ${packageJsonPath}:`, error);
+    return null;
+  }
+
+  const scriptCommands = collectScriptCommands(packageJson.scripts || {}, script);
+  for (const command of scriptCommands) {
+    const port = matchPort(command, SCRIPT_PORT_PATTERNS);
+    if (port) return { port, source: `${script} script` };
+  }
+
+  const envPort = detectEnvPort(projectPath);
+  if (envPort) return envPort;
+
+  for (const configFile of CONFIG_FILES) {
+    const content = readFile(join(projectPath, configFile));
+    const port = content ? matchPort(content, [/\bport\s*:\s*(\d+)/]) : null;
+    if (port) return { port, source: basename(configFile) };
+  }
+
+  const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  const framework =
+    FRAMEWORK_DEFAULTS.find(({ bin }) =>
+      scriptCommands.some((command) => new RegExp(`(^|[\\s&;])${bin}\\b`).test(command)),
+    ) ?? FRAMEWORK_DEFAULTS.find(({ dependency }) => dependency in dependencies);
+
+  return framework ? { port: framework.port, source: `${framework.name} default` } : null;
+};
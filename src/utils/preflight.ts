@@ -0,0 +1,221 @@
+import { execFile } from "child_process";
+import { existsSync, readFileSync, statSync } from "fs";
+import { copyFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { minVersion, satisfies, validRange } from "semver";
+import { promisify } from "util";
+import { Project } from "../types";
+import { findLockfile } from "./package-manager";
+import { runInLoginShell } from "./shell";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * How a pre-flight issue is fixed: by changing the project before starting, or by prefixing the dev command
+ */
+export type PreflightFix =
+  | { type: "run"; title: string; run: () => Promise<void> }
+  | { type: "commandPrefix"; title: string; prefix: string };
+
+/**
+ * Something likely to make the dev server fail to start
+ */
+export interface PreflightIssue {
+  title: string;
+  message: string;
+  fix: PreflightFix | null; // Null when it can't be fixed automatically
+}
+
+/**
+ * Files that count as an existing env file (Next.js and Vite also read .env.local)
+ */
+const ENV_FILES = [".env", ".env.local"];
+
+/**
+ * Files the package managers write into node_modules on install, used to tell when it was last installed
+ */
+const INSTALL_MARKERS = [".package-lock.json", ".modules.yaml", ".yarn-state.yml", ".yarn-integrity"];
+
+const NODE_VERSION_FILES = [".nvmrc", ".node-version"];
+
+/**
+ * Node version managers, looked up explicitly since Raycast runs with a minimal PATH
+ * nvm is a shell function, so only its install script is checked
+ */
+const NODE_VERSION_MANAGERS = [
+  { name: "fnm", candidates: ["/opt/homebrew/bin/fnm", "/usr/local/bin/fnm", join(homedir(), ".local/share/fnm/fnm")] },
+  { name: "nvm", candidates: [join(process.env.NVM_DIR || join(homedir(), ".nvm"), "nvm.sh")] },
+];
+
+/**
+ * A missing .env when the project ships a .env.example
+ */
+const checkEnvFile = (projectPath: string): PreflightIssue | null => {
+  const examplePath = join(projectPath, ".env.example");
+  if (!existsSync(examplePath) || ENV_FILES.some((file) => existsSync(join(projectPath, file)))) return null;
+
+  return {
+    title: "Missing .env file",
+    message: "The project has a .env.example but no .env.",
+    fix: {
+      type: "run",
+      title: "Copy .env.example to .env",
+      run: () => copyFile(examplePath, join(projectPath, ".env")),
+    },
+  };
+};
+
+/**
+ * Whether a package.json declares any dependencies
+ */
+const hasDependencies = (packageJsonPath: string): boolean => {
+  try {
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+    return Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies }).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * node_modules missing, or installed before the lockfile last changed
+ * Workspace packages are checked at their monorepo root, where dependencies are installed
+ */
+const checkDependencies = (project: Project): PreflightIssue | null => {
+  const installPath = project.workspace?.root.rootPath ?? project.path;
+  const packageJsonPath = join(installPath, "package.json");
+
+  // Yarn Plug'n'Play installs without node_modules
+  if (!hasDependencies(packageJsonPath) || existsSync(join(installPath, ".pnp.cjs"))) return null;
+
+  const packageManager = project.packageManager ?? "npm";
+  const fix: PreflightFix = {
+    type: "run",
+    title: `Run ${packageManager} install`,
+    run: async () => {
+      await runInLoginShell(`${packageManager} install`, installPath).catch((error) => {
+        throw new Error(`${packageManager} install failed: ${error.stderr?.trim() || error.message}`);
+      });
+    },
+  };
+
+  const nodeModulesPath = join(installPath, "node_modules");
+  if (!existsSync(nodeModulesPath)) {
+    return { title: "Dependencies not installed", message: `${installPath} has no node_modules.`, fix };
+  }
+
+  const lockfile = findLockfile(installPath);
+  if (!lockfile) return null;
+
+  const markerPath =
+    INSTALL_MARKERS.map((marker) => join(nodeModulesPath, marker)).find((path) => existsSync(path)) ?? nodeModulesPath;
+  if (statSync(join(installPath, lockfile)).mtimeMs <= statSync(markerPath).mtimeMs) return null;
+
+  return {
+    title: "Dependencies out of date",
+    message: `${lockfile} changed since node_modules was last installed.`,
+    fix,
+  };
+};
+
+/**
+ * Node versions a project accepts
+ */
+interface NodeRequirement {
+  source: string; // File the requirement comes from
+  range: string; // Semver range; a pin like "20" accepts any 20.x
+  version: string | null; // Version a version manager should switch to
+}
+
+/**
+ * The `engines.node` range of a folder's package.json
+ */
+const readEnginesNode = (folder: string): string | null => {
+  try {
+    const packageJson = JSON.parse(readFileSync(join(folder, "package.json"), "utf8"));
+    return typeof packageJson.engines?.node === "string" ? packageJson.engines.node : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the Node version pinned by .nvmrc or .node-version, else the package.json `engines.node` range
+ * (in the project, then its monorepo root)
+ * @returns The requirement, or null for none or aliases like "lts/*"
+ */
+const readNodeRequirement = (project: Project): NodeRequirement | null => {
+  const folders = [project.path, ...(project.workspace ? [project.workspace.root.rootPath] : [])];
+
+  for (const folder of folders) {
+    for (const file of NODE_VERSION_FILES) {
+      const filePath = join(folder, file);
+      if (!existsSync(filePath)) continue;
+
+      const version = readFileSync(filePath, "utf8").trim().replace(/^v/, "");
+      return /^\d+(\.\d+){0,2}$/.test(version) ? { source: file, range: version, version } : null;
+    }
+  }
+
+  for (const folder of folders) {
+    const range = readEnginesNode(folder);
+    if (range && validRange(range)) {
+      // Switch to the lowest major version the range allows
+      const lowest = minVersion(range);
+      return { source: "package.json engines", range, version: lowest ? String(lowest.major) : null };
+    }
+  }
+  return null;
+};
+
+/**
+ * Node version the user's shell resolves (nvm and friends are set up in the interactive shell config)
+ * @returns Version without the "v" prefix, or null if Node isn't found
+ */
+const getShellNodeVersion = async (projectPath: string): Promise<string | null> => {
+  try {
+    const { stdout } = await execFileAsync(process.env.SHELL || "/bin/zsh", ["-ilc", "node --version"], {
+      cwd: projectPath,
+      timeout: 5000,
+    });
+    return stdout.match(/v(\d+\.\d+\.\d+)/)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Node version outside the one pinned by .nvmrc/.node-version or the `engines.node` range
+ */
+const checkNodeVersion = async (project: Project): Promise<PreflightIssue | null> => {
+  const required = readNodeRequirement(project);
+  if (!required) return null;
+
+  const current = await getShellNodeVersion(project.path);
+  if (!current || satisfies(current, required.range)) return null;
+
+  const manager = NODE_VERSION_MANAGERS.find(({ candidates }) => candidates.some((path) => existsSync(path)));
+  return {
+    title: "Node version mismatch",
+    message: `${required.source} asks for Node ${required.range}, but the shell uses ${current}.`,
+    fix:
+      manager && required.version
+        ? {
+            type: "commandPrefix",
+            title: `Run ${manager.name} use ${required.version} before the dev command`,
+            prefix: `${manager.name} use ${required.version} && `,
+          }
+        : null,
+  };
+};
+
+/**
+ * Checks a project for a missing .env, missing or stale dependencies and a Node version mismatch
+ * @returns The issues found, in the order they should be fixed
+ */
+export const runPreflightChecks = async (project: Project): Promise<PreflightIssue[]> => {
+  const nodeIssues = project.hasPackageJson ? [checkDependencies(project), await checkNodeVersion(project)] : [];
+
+  return [checkEnvFile(project.path), ...nodeIssues].filter((issue): issue is PreflightIssue => issue !== null);
+};
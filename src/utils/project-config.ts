@@ -0,0 +1,173 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { EDITOR_IDS, EditorId } from "./editors";
+import { shellQuote } from "./quoting";
+
+export const PROJECT_CONFIG_FILE = ".codesession.json";
+
+const DEFAULT_URL = "http://localhost:{port}";
+
+/**
+ * URL to open in the browser: a plain string, or an object with a base URL and a path.
+ * `{port}` is replaced with the project's port.
+ */
+export type ProjectUrl = string | { url?: string; path?: string };
+
+/**
+ * Per-project workflow settings, committed as `.codesession.json` or a `codesession` key in package.json.
+ * Every field is optional; set fields override the detected defaults.
+ */
+export interface ProjectConfig {
+  command?: string; // Full dev command (replaces the package.json script)
+  cwd?: string; // Working subdirectory, relative to the project folder
+  port?: string; // Development server port
+  urls?: ProjectUrl[]; // URLs to open (defaults to http://localhost:{port})
+  env?: Record<string, string>; // Environment variables for the dev command
+  openBrowser?: boolean; // Whether to open a browser at all
+  editor?: EditorId; // Editor override for this project
+}
+
+export interface ProjectConfigResult {
+  config: ProjectConfig | null;
+  source: string | null; // File the config was read from
+  error: string | null; // Validation error naming the bad field
+}
+
+type FieldValidator = (value: unknown) => string | null; // Returns an error message or null
+
+const isString: FieldValidator = (value) =>
+  typeof value === "string" && value.trim() ? null : "must be a non-empty string";
+
+const FIELD_VALIDATORS: Record<keyof ProjectConfig, FieldValidator> = {
+  command: isString,
+  cwd: (value) => {
+    const error = isString(value);
+    if (error) return error;
+    return (value as string).startsWith("/") ? "must be relative to the project folder" : null;
+  },
+  port: (value) => {
+    const port = typeof value === "string" ? Number(value) : value;
+    return typeof port === "number" && Number.isInteger(port) && port > 0 && port <= 65535
+      ? null
+      : "must be a port number between 1 and 65535";
+  },
+  urls: (value) => {
+    if (!Array.isArray(value)) return "must be an array";
+
+    for (const [index, entry] of value.entries()) {
+      if (typeof entry === "string") {
+        if (!entry.trim()) return `entry ${index} must be a non-empty URL`;
+        continue;
+      }
+      if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+        return `entry ${index} must be a URL string or an object with "url" and/or "path"`;
+      }
+
+      const unknownKey = Object.keys(entry).find((key) => key !== "url" && key !== "path");
+      if (unknownKey) return `entry ${index} has unknown field "${unknownKey}"`;
+      if (entry.url !== undefined && isString(entry.url)) return `entry ${index} "url" must be a non-empty string`;
+      if (entry.path !== undefined && typeof entry.path !== "string") return `entry ${index} "path" must be a string`;
+    }
+    return null;
+  },
+  env: (value) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return "must be an object";
+
+    for (const [key, envValue] of Object.entries(value)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) return `has an invalid variable name "${key}"`;
+      if (typeof envValue !== "string") return `value of "${key}" must be a string`;
+    }
+    return null;
+  },
+  openBrowser: (value) => (typeof value === "boolean" ? null : "must be true or false"),
+  editor: (value) =>
+    EDITOR_IDS.includes(value as EditorId) ? null : `must be one of ${EDITOR_IDS.map((id) => `"${id}"`).join(", ")}`,
+};
+
+/**
+ * Validates raw JSON against the config schema
+ * @throws Error naming the first invalid or unknown field
+ */
+const validateProjectConfig = (raw: unknown): ProjectConfig => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("config must be a JSON object");
+  }
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!(field in FIELD_VALIDATORS)) {
+      throw new Error(`unknown field "${field}"`);
+    }
+
+    const error = FIELD_VALIDATORS[field as keyof ProjectConfig](value);
+    if (error) {
+      throw new Error(`"${field}" ${error}`);
+    }
+  }
+
+  const config = raw as ProjectConfig & { port?: string | number };
+  return config.port === undefined ? config : { ...config, port: String(config.port) };
+};
+
+/**
+ * Loads the workflow config of a project
+ *
+ * `.codesession.json` in the project folder takes precedence over the `codesession` key in package.json.
+ *
+ * @param projectPath - Project directory
+ * @param packageJsonPath - Path to the project's package.json, if any
+ * @returns The validated config, or an error describing the bad field
+ */
+export const loadProjectConfig = (projectPath: string, packageJsonPath: string | null): ProjectConfigResult => {
+  const configPath = join(projectPath, PROJECT_CONFIG_FILE);
+  let source: string | null = null;
+  let raw: unknown;
+
+  try {
+    if (existsSync(configPath)) {
+      source = configPath;
+      raw = JSON.parse(readFileSync(configPath, "utf8"));
+    } else if (packageJsonPath) {
+      const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+      if (packageJson.codesession === undefined) return { config: null, source: null, error: null };
+
+      source = `${packageJsonPath} (codesession)`;
+      raw = packageJson.codesession;
+    } else {
+      return { config: null, source: null, error: null };
+    }
+
+    return { config: validateProjectConfig(raw), source, error: null };
+  } catch (error) {
+    // A package.json that can't be parsed is reported elsewhere; only surface errors of an actual config
+    if (!source) return { config: null, source: null, error: null };
+
+    const message = error instanceof SyntaxError ? `invalid JSON (${error.message})` : (error as Error).message;
+    return { config: null, source, error: `${source}: ${message}` };
+  }
+};
+
+/**
+ * Wraps a command with the config's working subdirectory and environment variables
+ * @example applyConfigToCommand("npm run dev", { cwd: "web", env: { DEBUG: "1" } }) // cd 'web' && DEBUG='1' npm run dev
+ */
+export const applyConfigToCommand = (command: string, config: ProjectConfig | null): string => {
+  const envPrefix = Object.entries(config?.env ?? {})
+    .map(([key, value]) => `${key}=${shellQuote(value)} `)
+    .join("");
+  const withEnv = `${envPrefix}${command}`;
+
+  return config?.cwd ? `cd ${shellQuote(config.cwd)} && ${withEnv}` : withEnv;
+};
+
+/**
+ * Resolves the URLs a project opens in the browser
+ * @example resolveProjectUrls([{ path: "/docs" }, "http://localhost:6006"], "3000") // ["http://localhost:3000/docs", "http://localhost:6006"]
+ */
+export const resolveProjectUrls = (urls: ProjectUrl[] | undefined, port: string): string[] => {
+  return (urls ?? [DEFAULT_URL]).map((entry) => {
+    const { url = DEFAULT_URL, path = "" } = typeof entry === "string" ? { url: entry } : entry;
+    const normalizedPath = path && !path.startsWith("/") ? `/${path}` : path;
+
+    return `${url.replace(/\/$/, "")}${normalizedPath}`.replace(/\{port\}/g, port);
+  });
+};
@@ -0,0 +1,151 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { detectEnvPort } from "./port-detection";
+
+export type ProjectKind = "node" | "rust" | "go" | "python" | "ruby" | "docker-compose";
+
+export interface DetectedProjectKind {
+  kind: ProjectKind;
+  runCommand: string | null; // Default command that starts the project (null for Node, which runs package.json scripts)
+  port: string | null; // Port of the usual dev server (null when the stack has no default and none is configured)
+  portSource: string | null; // Where the port came from
+}
+
+/**
+ * Display name and list icon (emoji) of each project kind
+ */
+export const PROJECT_KINDS: Record<ProjectKind, { label: string; icon: string }> = {
+  node: { label: "Node", icon: "⬢" },
+  rust: { label: "Rust", icon: "🦀" },
+  go: { label: "Go", icon: "🐹" },
+  python: { label: "Python", icon: "🐍" },
+  ruby: { label: "Ruby", icon: "💎" },
+  "docker-compose": { label: "Docker Compose", icon: "🐳" },
+};
+
+const COMPOSE_FILES = ["compose.yaml", "compose.yml", "docker-compose.yaml", "docker-compose.yml"];
+
+/**
+ * Files and folders read to detect a project's kind, relative to the project folder
+ */
+export const PROJECT_KIND_FILES = [
+  "Cargo.toml",
+  "go.mod",
+  "main.go",
+  "cmd",
+  "pyproject.toml",
+  "requirements.txt",
+  "manage.py",
+  "uv.lock",
+  "poetry.lock",
+  "app/main.py",
+  "Gemfile",
+  ...COMPOSE_FILES,
+];
+
+const readFile = (filePath: string): string => {
+  try {
+    return existsSync(filePath) ? readFileSync(filePath, "utf8") : "";
+  } catch {
+    return "";
+  }
+};
+
+// Go modules without a root main package usually keep their entrypoints in cmd/<name>
+const detectGoRunCommand = (projectPath: string): string => {
+  if (existsSync(join(projectPath, "main.go"))) return "go run .";
+  try {
+    const entry = readdirSync(join(projectPath, "cmd"), { withFileTypes: true }).find((dirent) => dirent.isDirectory());
+    return entry ? `go run ./cmd/${entry.name}` : "go run .";
+  } catch {
+    return "go run .";
+  }
+};
+
+const detectPython = (projectPath: string): DetectedProjectKind | null => {
+  const manifest = readFile(join(projectPath, "pyproject.toml")) + readFile(join(projectPath, "requirements.txt"));
+  if (!manifest && !existsSync(join(projectPath, "manage.py"))) return null;
+
+  // Prefer uv or poetry when the project uses them so dependencies come from its own environment
+  const runner = existsSync(join(projectPath, "uv.lock"))
+    ? "uv run "
+    : existsSync(join(projectPath, "poetry.lock"))
+      ? "poetry run "
+      : "";
+
+  if (existsSync(join(projectPath, "manage.py"))) {
+    return {
+      kind: "python",
+      runCommand: `${runner}python manage.py runserver`,
+      port: "8000",
+      portSource: "Django default",
+    };
+  }
+  if (/\b(fastapi|uvicorn)\b/i.test(manifest)) {
+    const module = existsSync(join(projectPath, "app", "main.py")) ? "app.main" : "main";
+    return {
+      kind: "python",
+      runCommand: `${runner}uvicorn ${module}:app --reload`,
+      port: "8000",
+      portSource: "Uvicorn default",
+    };
+  }
+  if (/\bflask\b/i.test(manifest)) {
+    return { kind: "python", runCommand: `${runner}flask run --debug`, port: "5000", portSource: "Flask default" };
+  }
+  return { kind: "python", runCommand: `${runner}python main.py`, port: null, portSource: null };
+};
+
+const detectRuby = (projectPath: string): DetectedProjectKind | null => {
+  const gemfile = readFile(join(projectPath, "Gemfile"));
+  if (!gemfile) return null;
+
+  if (/gem\s+["']rails["']/.test(gemfile)) {
+    return { kind: "ruby", runCommand: "bin/rails server", port: "3000", portSource: "Rails default" };
+  }
+  return { kind: "ruby", runCommand: "bundle exec rackup", port: "9292", portSource: "Rack default" };
+};
+
+const detectDockerCompose = (projectPath: string): DetectedProjectKind | null => {
+  const composeFile = COMPOSE_FILES.find((file) => existsSync(join(projectPath, file)));
+  if (!composeFile) return null;
+
+  // First published port, e.g. `- "3000:3000"` or `- 127.0.0.1:8080:80`
+  const portMatch = readFile(join(projectPath, composeFile)).match(/^\s*-\s*["']?(?:[\d.]+:)?(\d+):\d+/m);
+  return {
+    kind: "docker-compose",
+    runCommand: "docker compose up",
+    port: portMatch ? portMatch[1] : null,
+    portSource: portMatch ? composeFile : null,
+  };
+};
+
+/**
+ * Detects what kind of project a folder holds from its marker files
+ *
+ * Checked in order: package.json, Cargo.toml, go.mod, pyproject.toml/requirements.txt/manage.py, Gemfile,
+ * then docker-compose files (so a compose file next to app code doesn't hide the app itself).
+ *
+ * @param projectPath - Folder to check
+ * @returns Detected kind with its default run command and port, or null for plain folders
+ */
+export const detectProjectKind = (projectPath: string): DetectedProjectKind | null => {
+  if (existsSync(join(projectPath, "package.json"))) {
+    return { kind: "node", runCommand: null, port: null, portSource: null };
+  }
+  // Rust and Go have no default port (many are CLI tools), so only a PORT from an env file counts
+  if (existsSync(join(projectPath, "Cargo.toml"))) {
+    const envPort = detectEnvPort(projectPath);
+    return { kind: "rust", runCommand: "cargo run", port: envPort?.port ?? null, portSource: envPort?.source ?? null };
+  }
+  if (existsSync(join(projectPath, "go.mod"))) {
+    const envPort = detectEnvPort(projectPath);
+    return {
+      kind: "go",
+      runCommand: detectGoRunCommand(projectPath),
+      port: envPort?.port ?? null,
+      portSource: envPort?.source ?? null,
+    };
+  }
+  return detectPython(projectPath) ?? detectRuby(projectPath) ?? detectDockerCompose(projectPath);
+};
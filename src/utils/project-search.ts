@@ -0,0 +1,71 @@
+import { getPreferenceValues } from "@raycast/api";
+import { createDeeplink } from "@raycast/utils";
+import { isAbsolute } from "path";
+import { Preferences, Project } from "../types";
+import { getLastScripts } from "./history";
+import { parseIgnorePatterns } from "./ignore";
+import { getRootFolders } from "./roots";
+import { getAllProjects, scanProjectAtPath } from "./scanner";
+
+/**
+ * How well a project matches a query, lower is better (null when it doesn't match)
+ * 0: exact name, 1: name prefix, 2: name contains, 3: name contains the letters in order, 4: path contains
+ */
+const getMatchTier = (project: Project, query: string): number | null => {
+  const name = project.name.toLowerCase();
+  const normalizedQuery = query.toLowerCase();
+
+  if (name === normalizedQuery) return 0;
+  if (name.startsWith(normalizedQuery)) return 1;
+  if (name.includes(normalizedQuery)) return 2;
+
+  let position = 0;
+  for (const character of name) {
+    if (character === normalizedQuery[position]) position++;
+  }
+  if (position === normalizedQuery.length) return 3;
+
+  return project.path.toLowerCase().includes(normalizedQuery) ? 4 : null;
+};
+
+/**
+ * Fuzzy-match projects by name, keeping only the best matching tier
+ * @returns The best matches (a single project means the query is unambiguous)
+ * @example matchProjects(projects, "web") // [web] even when "web-admin" and "my-web" exist too
+ */
+export const matchProjects = (projects: Project[], query: string): Project[] => {
+  const matches = projects
+    .map((project) => ({ project, tier: getMatchTier(project, query.trim()) }))
+    .filter((match): match is { project: Project; tier: number } => match.tier !== null);
+
+  const bestTier = Math.min(...matches.map(({ tier }) => tier));
+  return matches.filter(({ tier }) => tier === bestTier).map(({ project }) => project);
+};
+
+/**
+ * Find the projects matching a query across all root folders
+ * An absolute path (e.g. from a deeplink) is scanned directly instead
+ */
+export const findProjects = async (query: string): Promise<Project[]> => {
+  const preferences = getPreferenceValues<Preferences>();
+  const lastScripts = await getLastScripts();
+
+  if (isAbsolute(query)) {
+    const project = await scanProjectAtPath(query, lastScripts);
+    return project ? [project] : [];
+  }
+
+  const ignorePatterns = parseIgnorePatterns(preferences.ignorePatterns);
+  const maxDepth = Number(preferences.searchMaxDepth) || 4;
+  const projects = await Promise.all(
+    getRootFolders(preferences).map((root) => getAllProjects(root.path, maxDepth, lastScripts, ignorePatterns)),
+  );
+  return matchProjects(projects.flat(), query);
+};
+
+/**
+ * Deeplink that starts a project through Start Coding Now's project argument (its path, so it can't be ambiguous)
+ */
+export const getProjectDeeplink = (project: Project): string => {
+  return createDeeplink({ command: "start-coding-now", arguments: { project: project.path } });
+};
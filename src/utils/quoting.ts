@@ -0,0 +1,13 @@
+/**
+ * Quotes a value for safe use in a POSIX shell command
+ * @example shellQuote("it's here") // 'it'\''s here'
+ */
+export const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Escapes a value for use inside an AppleScript string literal
+ * @example `do shell script "${escapeAppleScriptString(command)}"`
+ */
+export const escapeAppleScriptString = (value: string): string => {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r/g, "\\r").replace(/\n/g, "\\n");
+};
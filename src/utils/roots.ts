@@ -0,0 +1,41 @@
+import { homedir } from "os";
+import { basename, sep } from "path";
+import { Preferences } from "../types";
+
+/**
+ * A top-level folder projects are discovered in, shown as its own section
+ */
+export interface RootFolder {
+  label: string;
+  path: string;
+}
+
+const expandHome = (folderPath: string): string => folderPath.replace(/^~(?=$|\/)/, homedir());
+
+/**
+ * The dev folder followed by the additional folders from the preferences
+ * Additional folders are comma-separated `Label=path` entries; a bare path is labeled with its folder name
+ * @example "Work=~/work, ~/oss" // [{ label: "Work", path: "/Users/me/work" }, { label: "oss", path: "/Users/me/oss" }]
+ */
+export const getRootFolders = (preferences: Preferences): RootFolder[] => {
+  const additionalFolders = (preferences.additionalFolders ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separatorIndex = entry.indexOf("=");
+      const path = expandHome(separatorIndex === -1 ? entry : entry.slice(separatorIndex + 1).trim());
+      const label = separatorIndex === -1 ? basename(path) : entry.slice(0, separatorIndex).trim();
+      return { label: label || basename(path), path };
+    });
+
+  const roots = [{ label: "Development Projects", path: expandHome(preferences.devFolderPath) }, ...additionalFolders];
+  return roots.filter((root, index) => roots.findIndex(({ path }) => path === root.path) === index);
+};
+
+/**
+ * The root folder containing a path, if any
+ */
+export const findRootFolder = (roots: RootFolder[], folderPath: string): RootFolder | undefined => {
+  return roots.find((root) => folderPath === root.path || folderPath.startsWith(`${root.path}${sep}`));
+};
@@ -0,0 +1,344 @@
+import { Cache } from "@raycast/api";
+import { existsSync } from "fs";
+import { readdir, stat } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { Project } from "../types";
+import { IgnoreRules, isIgnored } from "./ignore";
+import { detectPackageManager, LOCKFILE_NAMES } from "./package-manager";
+import { detectPort, PORT_SOURCE_FILES } from "./port-detection";
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from "./project-config";
+import { detectProjectKind, PROJECT_KIND_FILES } from "./project-kinds";
+import { detectWorkspaceRoot, listWorkspacePackages, WORKSPACE_FILES } from "./workspaces";
+
+/**
+ * Folders never descended into when searching all projects (dependencies and build outputs)
+ */
+const SKIPPED_FOLDERS = new Set(["node_modules", "dist", "build", "out", "target", "coverage", "vendor"]);
+
+/**
+ * How many parent folders are checked for a monorepo root when scanning a folder by path
+ */
+const MAX_WORKSPACE_ROOT_DISTANCE = 4;
+
+/**
+ * Persistent scan results, reused while a folder's mtime and the mtimes of the files its scan reads are unchanged
+ */
+const scanCache = new Cache({ namespace: "project-scan" });
+
+/**
+ * Bumped whenever the shape of a scanned Project changes, so stale cache entries are rescanned
+ */
+const PROJECT_CACHE_VERSION = 4;
+
+/**
+ * Files a project scan reads, relative to the project folder
+ * Editing one in place doesn't change the folder's mtime, so their mtimes are part of the cache signature
+ */
+const SCANNED_FILES = [
+  "package.json",
+  PROJECT_CONFIG_FILE,
+  ...LOCKFILE_NAMES,
+  ...WORKSPACE_FILES,
+  ...PORT_SOURCE_FILES,
+  ...PROJECT_KIND_FILES,
+];
+
+/**
+ * Files read from the folders above a Node project: the package manager lookup walks up to the repository root,
+ * which also covers the monorepo root of workspace packages
+ */
+const PARENT_SCANNED_FILES = ["package.json", ...LOCKFILE_NAMES, ...WORKSPACE_FILES];
+
+interface CachedEntry<T> {
+  signature: string;
+  value: T;
+}
+
+const readCache = <T>(key: string, signature: string): T | undefined => {
+  const cached = scanCache.get(key);
+  if (!cached) return undefined;
+
+  try {
+    const entry: CachedEntry<T> = JSON.parse(cached);
+    return entry.signature === signature ? entry.value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeCache = <T>(key: string, signature: string, value: T): void => {
+  scanCache.set(key, JSON.stringify({ signature, value } satisfies CachedEntry<T>));
+};
+
+const getMtime = async (path: string): Promise<number> => {
+  try {
+    return (await stat(path)).mtimeMs;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Signature of the files of a folder a scan reads: `name=mtime` for each one that exists
+ * Only folder entries are listed first, so missing files cost no stat call
+ */
+const getFilesSignature = async (folderPath: string, files: string[]): Promise<string> => {
+  const entries = new Set(await readdir(folderPath).catch(() => []));
+  const existing = files.filter((file) => entries.has(file.split("/")[0]));
+  const mtimes = await Promise.all(existing.map((file) => getMtime(join(folderPath, file))));
+  return existing.map((file, index) => `${file}=${mtimes[index]}`).join(",");
+};
+
+/**
+ * Signature of every file a project scan reads, in the folder and (for Node projects) the folders above it
+ */
+const getScannedFilesSignature = async (projectPath: string, isNodeProject: boolean): Promise<string> => {
+  const signatures = [await getFilesSignature(projectPath, SCANNED_FILES)];
+
+  // Same walk as detectPackageManager: up to the folder holding .git
+  let currentPath = projectPath;
+  while (isNodeProject && !existsSync(join(currentPath, ".git")) && dirname(currentPath) !== currentPath) {
+    currentPath = dirname(currentPath);
+    signatures.push(await getFilesSignature(currentPath, PARENT_SCANNED_FILES));
+  }
+  return signatures.join("|");
+};
+
+/**
+ * Finds the folder's own package.json file
+ * Parent directories are not searched: packages inside a monorepo are listed through its workspaces instead
+ * @param folderPath - Directory to check
+ * @returns Path to package.json or null if not found
+ */
+export const findPackageJson = (folderPath: string): string | null => {
+  const packageJsonPath = join(folderPath, "package.json");
+  return existsSync(packageJsonPath) ? packageJsonPath : null;
+};
+
+/**
+ * Lists the non-dot subfolders of a folder that aren't ignored
+ */
+const listSubfolders = async (folderPath: string, ignore: IgnoreRules | null = null): Promise<string[]> => {
+  const folders = await listAllSubfolders(folderPath);
+  return folders.filter((folderName) => !isIgnored(ignore, join(folderPath, folderName)));
+};
+
+/**
+ * Lists all non-dot subfolders, cached on the folder's mtime (ignore rules apply on top, so they can change freely)
+ */
+const listAllSubfolders = async (folderPath: string): Promise<string[]> => {
+  const signature = String(await getMtime(folderPath));
+  const cached = readCache<string[]>(`folders:${folderPath}`, signature);
+  if (cached) return cached;
+
+  try {
+    const items = (await readdir(folderPath)).filter((item) => !item.startsWith("."));
+    const isDirectory = await Promise.all(
+      items.map((item) =>
+        stat(join(folderPath, item)).then(
+          (stats) => stats.isDirectory(),
+          () => false,
+        ),
+      ),
+    );
+    const folders = items.filter((_, index) => isDirectory[index]);
+
+    writeCache(`folders:${folderPath}`, signature, folders);
+    return folders;
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Scan a single folder into a project item, reusing the cached result when nothing changed
+ * @param projectPath - Folder to scan
+ * @param name - Display name
+ * @param lastScripts - Last script used per project, so ports are detected from the script that will run
+ * @param workspace - Monorepo the folder is a package of, if any
+ * @param ignore - Ignore rules deciding whether the folder has subfolders to navigate into
+ */
+const scanProject = async (
+  projectPath: string,
+  name: string,
+  lastScripts: Map<string, string>,
+  workspace: Project["workspace"] = null,
+  ignore: IgnoreRules | null = null,
+): Promise<Project> => {
+  const script = lastScripts.get(projectPath) ?? "dev";
+  const signature = [
+    PROJECT_CACHE_VERSION,
+    await getMtime(projectPath),
+    await getScannedFilesSignature(projectPath, workspace !== null || existsSync(join(projectPath, "package.json"))),
+    script,
+    workspace?.root.rootPath ?? "",
+    ignore ? `${ignore.rootPath}|${ignore.patterns.join(",")}` : "",
+  ].join(":");
+
+  const cached = readCache<Project>(`project:${projectPath}`, signature);
+  if (cached) return { ...cached, name };
+
+  const packageJsonPath = findPackageJson(projectPath);
+  const hasPackageJson = packageJsonPath !== null;
+
+  // Non-Node projects (Cargo.toml, go.mod, pyproject.toml, Gemfile, docker-compose) start with their own run command
+  const detectedKind = hasPackageJson || workspace ? null : detectProjectKind(projectPath);
+  const kind = hasPackageJson || workspace ? "node" : (detectedKind?.kind ?? null);
+
+  // Detect package manager (package.json field, lockfiles, then workspace root)
+  const packageManager = hasPackageJson ? detectPackageManager(projectPath, packageJsonPath) : null;
+
+  // Load workflow config (.codesession.json or package.json "codesession")
+  const { config, error: configError } = loadProjectConfig(projectPath, packageJsonPath);
+
+  // Config port overrides the port detected for the script that will run
+  const detectedPort = packageJsonPath && !config?.port ? detectPort(projectPath, packageJsonPath, script) : null;
+  const port = config?.port ?? detectedPort?.port ?? detectedKind?.port ?? null;
+  const portSource = config?.port ? "workflow config" : (detectedPort?.source ?? detectedKind?.portSource ?? null);
+
+  // Workspace packages are always projects; other folders may be navigable
+  const hasValidSubfolders = workspace ? false : (await listSubfolders(projectPath, ignore)).length > 0;
+
+  const project: Project = {
+    name,
+    path: projectPath,
+    packageJsonPath,
+    hasPackageJson: hasPackageJson || workspace !== null,
+    kind,
+    runCommand: detectedKind?.runCommand ?? null,
+    packageManager,
+    port,
+    portSource,
+    config,
+    configError,
+    hasValidSubfolders,
+    isLeafFolder: !kind && !hasValidSubfolders,
+    workspaceRoot: hasPackageJson && !workspace ? detectWorkspaceRoot(projectPath, packageManager) : null,
+    workspace,
+  };
+
+  writeCache(`project:${projectPath}`, signature, project);
+  return project;
+};
+
+/**
+ * Scan the packages of a monorepo as projects
+ */
+const scanWorkspacePackages = (
+  workspaceRoot: NonNullable<Project["workspaceRoot"]>,
+  lastScripts: Map<string, string>,
+): Promise<Project[]> => {
+  return Promise.all(
+    listWorkspacePackages(workspaceRoot).map((workspacePackage) =>
+      scanProject(workspacePackage.path, workspacePackage.name, lastScripts, {
+        root: workspaceRoot,
+        packageName: workspacePackage.name,
+      }),
+    ),
+  );
+};
+
+/**
+ * Get items (folders or projects) at the current navigation path
+ * Filters out dot and ignored folders and determines folder types; inside a monorepo root, lists its workspace packages
+ * @param lastScripts - Last script used per project, so ports are detected from the script that will run
+ * @param ignorePatterns - Gitignore-style patterns, relative to the base path, for folders to hide
+ */
+export const getItemsAtPath = async (
+  basePath: string,
+  currentPath: string,
+  lastScripts: Map<string, string>,
+  ignorePatterns: string[] = [],
+): Promise<Project[]> => {
+  try {
+    const fullPath = join(basePath, currentPath);
+    const ignore = { rootPath: basePath, patterns: ignorePatterns };
+
+    const packageJsonPath = findPackageJson(fullPath);
+    const workspaceRoot =
+      currentPath && packageJsonPath
+        ? detectWorkspaceRoot(fullPath, detectPackageManager(fullPath, packageJsonPath))
+        : null;
+    if (workspaceRoot) {
+      return await scanWorkspacePackages(workspaceRoot, lastScripts);
+    }
+
+    const folders = await listSubfolders(fullPath, ignore);
+    const items = await Promise.all(
+      folders.map((folderName) => scanProject(join(fullPath, folderName), folderName, lastScripts, null, ignore)),
+    );
+
+    return items.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error scanning items:", error);
+    return [];
+  }
+};
+
+/**
+ * Walk the dev folder and collect every detected project (flat "search all projects" mode)
+ * Skips dot folders, node_modules and build outputs; workspace packages are listed alongside their repo
+ * @param maxDepth - Maximum folder depth below the dev folder
+ * @param ignorePatterns - Gitignore-style patterns, relative to the base path, for folders to skip
+ */
+export const getAllProjects = async (
+  basePath: string,
+  maxDepth: number,
+  lastScripts: Map<string, string>,
+  ignorePatterns: string[] = [],
+): Promise<Project[]> => {
+  const ignore = { rootPath: basePath, patterns: ignorePatterns };
+
+  const walk = async (folderPath: string, depth: number): Promise<Project[]> => {
+    const folders = (await listSubfolders(folderPath, ignore)).filter((folderName) => !SKIPPED_FOLDERS.has(folderName));
+
+    const nested = await Promise.all(
+      folders.map(async (folderName) => {
+        const project = await scanProject(join(folderPath, folderName), folderName, lastScripts, null, ignore);
+
+        if (!project.kind) {
+          return depth < maxDepth ? walk(project.path, depth + 1) : [];
+        }
+        if (project.workspaceRoot) {
+          return [project, ...(await scanWorkspacePackages(project.workspaceRoot, lastScripts))];
+        }
+        return [project];
+      }),
+    );
+    return nested.flat();
+  };
+
+  return walk(basePath, 1);
+};
+
+/**
+ * Scan a single folder by path (e.g. from the history), detecting whether it's a package of a monorepo
+ * @returns The project, or null if the folder no longer exists
+ */
+export const scanProjectAtPath = async (
+  projectPath: string,
+  lastScripts: Map<string, string>,
+): Promise<Project | null> => {
+  if (!existsSync(projectPath)) return null;
+
+  let parentPath = dirname(projectPath);
+  for (let distance = 0; distance < MAX_WORKSPACE_ROOT_DISTANCE && parentPath !== dirname(parentPath); distance++) {
+    const packageJsonPath = findPackageJson(parentPath);
+    const workspaceRoot = packageJsonPath
+      ? detectWorkspaceRoot(parentPath, detectPackageManager(parentPath, packageJsonPath))
+      : null;
+    const workspacePackage = workspaceRoot
+      ? listWorkspacePackages(workspaceRoot).find((candidate) => candidate.path === projectPath)
+      : undefined;
+
+    if (workspaceRoot && workspacePackage) {
+      return scanProject(projectPath, workspacePackage.name, lastScripts, {
+        root: workspaceRoot,
+        packageName: workspacePackage.name,
+      });
+    }
+    parentPath = dirname(parentPath);
+  }
+
+  return scanProject(projectPath, basename(projectPath), lastScripts);
+};
@@ -0,0 +1,154 @@
+import { LocalStorage } from "@raycast/api";
+import { endJournalEntry } from "./journal";
+import { checkPort } from "./port-check";
+import { findTmux, hasTmuxSession, killTmuxSession } from "./terminals";
+
+/**
+ * A dev server started by the workflow
+ */
+export interface Session {
+  projectPath: string;
+  projectName: string;
+  command: string; // Command run in the terminal
+  port: string | null; // Port the server was started on, if known
+  pid: number | null; // Server process, resolved from the port listener once the server is up
+  tmuxSession: string | null; // tmux session the server runs in (tmux terminal backend)
+  startedAt: number;
+}
+
+export type SessionState = "running" | "starting" | "stopped";
+
+export interface SessionStatus extends Session {
+  state: SessionState;
+}
+
+/**
+ * How long a session without a known server process is still considered booting
+ */
+const STARTUP_GRACE_MS = 60 * 1000;
+
+const SESSIONS_KEY = "sessions";
+
+const readSessions = async (): Promise<Session[]> => {
+  try {
+    const sessionsJson = await LocalStorage.getItem<string>(SESSIONS_KEY);
+    const sessions: Array<Omit<Session, "tmuxSession"> & Partial<Session>> = sessionsJson
+      ? JSON.parse(sessionsJson)
+      : [];
+    return sessions.map((session) => ({ ...session, tmuxSession: session.tmuxSession ?? null }));
+  } catch (error) {
+    console.error("Error reading sessions:", error);
+    return [];
+  }
+};
+
+const writeSessions = async (sessions: Session[]): Promise<void> => {
+  await LocalStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+/**
+ * Whether a process exists (EPERM means it exists but belongs to another user)
+ */
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+/**
+ * Finds the server process of a session: the listener on its port running from inside the project
+ */
+const resolveServerPid = async (session: Session): Promise<number | null> => {
+  if (!session.port) return null;
+
+  const portStatus = await checkPort(Number(session.port), session.projectPath);
+  return portStatus.inUse && portStatus.ownedByProject ? (portStatus.listener?.pid ?? null) : null;
+};
+
+/**
+ * Whether the tmux session of a session still exists
+ */
+const isTmuxSessionAlive = async (session: Session): Promise<boolean> => {
+  const tmuxPath = session.tmuxSession ? findTmux() : null;
+  return tmuxPath !== null && session.tmuxSession !== null && hasTmuxSession(tmuxPath, session.tmuxSession);
+};
+
+/**
+ * Record a started session, replacing any previous session of the same project
+ */
+export const recordSession = async (session: Session): Promise<void> => {
+  const sessions = await readSessions();
+  await writeSessions([session, ...sessions.filter(({ projectPath }) => projectPath !== session.projectPath)]);
+};
+
+/**
+ * Remove a session from the list without touching its process
+ */
+export const forgetSession = async (projectPath: string): Promise<void> => {
+  const sessions = await readSessions();
+  await writeSessions(sessions.filter((session) => session.projectPath !== projectPath));
+};
+
+/**
+ * Get the recorded sessions with whether their server is still alive
+ * The terminal starts the server asynchronously, so server PIDs are looked up here and stored once found
+ */
+export const getSessions = async (): Promise<SessionStatus[]> => {
+  const sessions = await readSessions();
+  const now = Date.now();
+
+  const statuses = await Promise.all(
+    sessions.map(async (session): Promise<SessionStatus> => {
+      const pid = session.pid !== null && isProcessAlive(session.pid) ? session.pid : await resolveServerPid(session);
+      if (pid !== null) return { ...session, pid, state: "running" };
+      if (await isTmuxSessionAlive(session)) return { ...session, pid: null, state: "running" };
+
+      return { ...session, pid: null, state: now - session.startedAt < STARTUP_GRACE_MS ? "starting" : "stopped" };
+    }),
+  );
+
+  // Persist newly resolved PIDs so the next check doesn't need lsof
+  if (statuses.some((status, index) => status.pid !== sessions[index].pid)) {
+    await writeSessions(sessions.map((session, index) => ({ ...session, pid: statuses[index].pid })));
+  }
+  return statuses;
+};
+
+/**
+ * Paths of the projects with a live (running or starting) session
+ */
+export const getLiveSessionPaths = async (): Promise<string[]> => {
+  const sessions = await getSessions();
+  return sessions.filter(({ state }) => state !== "stopped").map(({ projectPath }) => projectPath);
+};
+
+/**
+ * Stop a session's server (killing its tmux session, else SIGTERM), remove the session and end its journal entry
+ * The stored PID may belong to an unrelated process by now, so the signal only goes to the port's current listener
+ * when it runs from inside the project
+ * @throws If no server process of the session can be found, or it could not be signalled
+ */
+export const stopSession = async (session: SessionStatus): Promise<void> => {
+  const tmuxPath = session.tmuxSession ? findTmux() : null;
+  if (tmuxPath && session.tmuxSession && (await hasTmuxSession(tmuxPath, session.tmuxSession))) {
+    await killTmuxSession(tmuxPath, session.tmuxSession);
+  } else if (session.state !== "stopped") {
+    const pid = await resolveServerPid(session);
+    if (pid === null) {
+      throw new Error(
+        `No server of ${session.projectName} is listening${session.port ? ` on port ${session.port}` : ""}, so nothing was stopped`,
+      );
+    }
+
+    try {
+      process.kill(pid, "SIGTERM");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ESRCH") throw error;
+    }
+  }
+  await forgetSession(session.projectPath);
+  await endJournalEntry(session.projectPath);
+};
@@ -0,0 +1,11 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs a command in the user's login shell, so tools installed through Homebrew, nvm, etc. are on the PATH
+ */
+export const runInLoginShell = (command: string, cwd: string) => {
+  return execFileAsync(process.env.SHELL || "/bin/zsh", ["-lc", command], { cwd, maxBuffer: 10 * 1024 * 1024 });
+};
@@ -0,0 +1,51 @@
+import { LocalStorage } from "@raycast/api";
+
+/**
+ * Tags of each project, keyed by project path
+ */
+export type ProjectTags = Record<string, string[]>;
+
+const TAGS_KEY = "projectTags";
+
+/**
+ * Turns user input into a tag: lowercase, with spaces replaced by dashes
+ * @example normalizeTag(" Client X ") // "client-x"
+ */
+const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+/**
+ * Splits a comma-separated tag list, normalizing and de-duplicating the tags
+ * @example parseTags("oss, Client X, oss") // ["oss", "client-x"]
+ */
+export const parseTags = (value: string): string[] => {
+  return [...new Set(value.split(",").map(normalizeTag).filter(Boolean))];
+};
+
+/**
+ * Get the tags of all projects
+ */
+export const getProjectTags = async (): Promise<ProjectTags> => {
+  try {
+    const tagsJson = await LocalStorage.getItem<string>(TAGS_KEY);
+    return tagsJson ? JSON.parse(tagsJson) : {};
+  } catch (error) {
+    console.error("Error reading project tags:", error);
+    return {};
+  }
+};
+
+/**
+ * Replace the tags of a project (an empty list removes the project)
+ */
+export const setProjectTags = async (projectPath: string, tags: string[]): Promise<void> => {
+  const otherTags = Object.entries(await getProjectTags()).filter(([path]) => path !== projectPath);
+  const updatedTags = tags.length > 0 ? [...otherTags, [projectPath, tags]] : otherTags;
+  await LocalStorage.setItem(TAGS_KEY, JSON.stringify(Object.fromEntries(updatedTags)));
+};
+
+/**
+ * Every tag in use, sorted by name
+ */
+export const listAllTags = (projectTags: ProjectTags): string[] => {
+  return [...new Set(Object.values(projectTags).flat())].sort((a, b) => a.localeCompare(b));
+};
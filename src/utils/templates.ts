@@ -0,0 +1,99 @@
+import { existsSync } from "fs";
+import { cp, readdir, readFile, writeFile } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { detectPackageManager } from "./package-manager";
+import { detectProjectKind, ProjectKind } from "./project-kinds";
+import { runInLoginShell } from "./shell";
+
+export interface ProjectTemplate {
+  name: string;
+  path: string;
+  kind: ProjectKind | null; // Detected from the template's marker files
+}
+
+/**
+ * Entries at the top of a template never copied into a new project (dependencies, git history and build outputs)
+ * Deeper entries are kept, since source folders like src/build or a Go package named target share these names
+ */
+const SKIPPED_TEMPLATE_ENTRIES = new Set(["node_modules", ".git", ".next", ".turbo", "dist", "build", "target"]);
+
+/**
+ * Lists the templates (non-dot subfolders) of the templates folder
+ */
+export const listTemplates = async (templatesPath: string): Promise<ProjectTemplate[]> => {
+  try {
+    const entries = await readdir(templatesPath, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+      .map((entry) => {
+        const templatePath = join(templatesPath, entry.name);
+        return { name: entry.name, path: templatePath, kind: detectProjectKind(templatePath)?.kind ?? null };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error(`Error listing templates in ${templatesPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Checks a new project's folder name
+ * @returns Why the name can't be used, or undefined if it's valid
+ */
+export const validateProjectName = (name: string, parentPath: string): string | undefined => {
+  if (!name.trim()) return "Enter a name";
+  if (name.startsWith(".") || /[/:\\]/.test(name)) return "Use a plain folder name";
+  if (existsSync(join(parentPath, name))) return "A folder with this name already exists";
+  return undefined;
+};
+
+/**
+ * Steps of project creation, reported as they start
+ */
+export type CreateProjectStep = "copy" | "git" | "install";
+
+/**
+ * Creates a project from a template: copies it, renames the package, runs `git init` and installs dependencies
+ * @param onStep - Called when each step starts (for progress toasts)
+ * @returns Path of the new project
+ * @throws If copying or a command fails (the error names the failing step)
+ */
+export const createProjectFromTemplate = async (
+  template: ProjectTemplate,
+  parentPath: string,
+  name: string,
+  onStep?: (step: CreateProjectStep) => void,
+): Promise<string> => {
+  const projectPath = join(parentPath, name);
+
+  onStep?.("copy");
+  await cp(template.path, projectPath, {
+    recursive: true,
+    errorOnExist: true,
+    force: false,
+    filter: (source) => dirname(source) !== template.path || !SKIPPED_TEMPLATE_ENTRIES.has(basename(source)),
+  });
+
+  // The template's package name would clash with the template itself in monorepos and registries
+  const packageJsonPath = join(projectPath, "package.json");
+  if (existsSync(packageJsonPath)) {
+    const packageJson = JSON.parse(await readFile(packageJsonPath, "utf8"));
+    packageJson.name = name.toLowerCase().replace(/[^a-z0-9._-]+/g, "-");
+    await writeFile(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+  }
+
+  onStep?.("git");
+  await runInLoginShell("git init --quiet", projectPath).catch((error) => {
+    throw new Error(`git init failed: ${error.message}`);
+  });
+
+  if (existsSync(packageJsonPath)) {
+    onStep?.("install");
+    const packageManager = detectPackageManager(projectPath, packageJsonPath) ?? "npm";
+    await runInLoginShell(`${packageManager} install`, projectPath).catch((error) => {
+      throw new Error(`${packageManager} install failed: ${error.stderr?.trim() || error.message}`);
+    });
+  }
+
+  return projectPath;
+};
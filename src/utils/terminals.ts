@@ -0,0 +1,70 @@
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { basename } from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export type TerminalId = "editor" | "terminal" | "iterm" | "warp" | "tmux";
+
+/**
+ * Display names of the terminal backends that run the dev server
+ */
+export const TERMINALS: Record<TerminalId, { name: string }> = {
+  editor: { name: "editor terminal" },
+  terminal: { name: "Terminal" },
+  iterm: { name: "iTerm" },
+  warp: { name: "Warp" },
+  tmux: { name: "tmux" },
+};
+
+/**
+ * How the workflow starts the dev server
+ * A tmux launch without a command attaches to the project's existing session instead of starting a second server
+ */
+export type DevServerLaunch =
+  | { terminal: Exclude<TerminalId, "tmux">; command: string }
+  | { terminal: "tmux"; tmuxPath: string; sessionName: string; command: string | null };
+
+/**
+ * Raycast and `do shell script` run with a minimal PATH, so Homebrew installs are looked up explicitly
+ */
+const TMUX_CANDIDATES = ["/opt/homebrew/bin/tmux", "/usr/local/bin/tmux", "/usr/bin/tmux"];
+
+/**
+ * Finds the tmux binary
+ * @returns Absolute path to tmux, or null if it isn't installed
+ */
+export const findTmux = (): string | null => {
+  return TMUX_CANDIDATES.find((candidate) => existsSync(candidate)) ?? null;
+};
+
+/**
+ * Name of a project's tmux session, e.g. "code-my-app-3f2a" (tmux doesn't allow "." or ":" in names)
+ * The path hash keeps same-named folders in different places apart
+ */
+export const getTmuxSessionName = (projectPath: string): string => {
+  const pathHash = createHash("sha1").update(projectPath).digest("hex").slice(0, 4);
+  return `code-${basename(projectPath).replace(/[^A-Za-z0-9_-]/g, "-")}-${pathHash}`;
+};
+
+/**
+ * Whether a tmux session exists
+ */
+export const hasTmuxSession = async (tmuxPath: string, sessionName: string): Promise<boolean> => {
+  try {
+    await execFileAsync(tmuxPath, ["has-session", "-t", `=${sessionName}`]);
+    return true;
+  } catch {
+    // Exits with 1 when the session (or the tmux server) doesn't exist
+    return false;
+  }
+};
+
+/**
+ * Kill a tmux session and the dev server running in it
+ */
+export const killTmuxSession = async (tmuxPath: string, sessionName: string): Promise<void> => {
+  await execFileAsync(tmuxPath, ["kill-session", "-t", `=${sessionName}`]);
+};
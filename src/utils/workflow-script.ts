@@ -0,0 +1,223 @@
+import { BrowserId, getBrowserName, getOpenUrlCommand } from "./browsers";
+import { EditorAdapter } from "./editors";
+import { escapeAppleScriptString, shellQuote } from "./quoting";
+import { DevServerLaunch, TERMINALS } from "./terminals";
+
+/**
+ * One step of the workflow, compiled to AppleScript by `compileWorkflowScript`
+ */
+export type WorkflowStep =
+  | { type: "dismissRaycast" } // Hide Raycast so keystrokes reach the editor
+  | { type: "openFolder"; editor: EditorAdapter; folderPath: string }
+  | { type: "activateApp"; appName: string }
+  | { type: "openTerminal"; editor: EditorAdapter } // Open and focus the editor's integrated terminal
+  | { type: "runCommand"; command: string } // Paste a command into the focused terminal and run it
+  | { type: "runInTerminalApp"; terminal: "terminal" | "iterm" | "warp"; cwd: string; command: string }
+  | { type: "startTmuxSession"; tmuxPath: string; sessionName: string; cwd: string; command: string }
+  | { type: "attachTmuxSession"; tmuxPath: string; sessionName: string } // Attach from a new Terminal window
+  | { type: "wait"; seconds: number }
+  | { type: "waitForServer"; url: string; timeoutSeconds: number } // Run by the extension between two scripts
+  | { type: "openUrl"; browser: BrowserId; url: string };
+
+/**
+ * Steps that open a folder in the editor and bring it to the front
+ */
+export const buildEditorOpeningSteps = (folderPath: string, editor: EditorAdapter): WorkflowStep[] => [
+  { type: "dismissRaycast" },
+  { type: "wait", seconds: 0.5 },
+  { type: "openFolder", editor, folderPath },
+  { type: "wait", seconds: 2 },
+  { type: "activateApp", appName: editor.appName },
+  { type: "wait", seconds: 1 },
+];
+
+/**
+ * Steps that start the dev server with the chosen terminal backend
+ */
+const buildLaunchSteps = (projectPath: string, editor: EditorAdapter, launch: DevServerLaunch): WorkflowStep[] => {
+  switch (launch.terminal) {
+    case "editor":
+      return [
+        { type: "openTerminal", editor },
+        { type: "runCommand", command: launch.command },
+        { type: "wait", seconds: 2 },
+      ];
+    case "tmux": {
+      const { tmuxPath, sessionName, command } = launch;
+      return [
+        ...(command === null
+          ? []
+          : [{ type: "startTmuxSession", tmuxPath, sessionName, cwd: projectPath, command } as const]),
+        { type: "attachTmuxSession", tmuxPath, sessionName },
+        { type: "wait", seconds: 1 },
+      ];
+    }
+    default:
+      return [
+        { type: "runInTerminalApp", terminal: launch.terminal, cwd: projectPath, command: launch.command },
+        { type: "wait", seconds: 2 },
+      ];
+  }
+};
+
+/**
+ * Steps of the development workflow (editor opening + dev server + browser)
+ * Without a launch (server already running), only the editor and browser are opened
+ * @param serverCheck - URL polled before the browser opens, so it doesn't land on a connection error
+ */
+export const buildDevWorkflowSteps = (
+  projectPath: string,
+  editor: EditorAdapter,
+  launch: DevServerLaunch | null,
+  urls: string[],
+  browser: BrowserId,
+  serverCheck: { url: string; timeoutSeconds: number } | null = null,
+): WorkflowStep[] => [
+  ...buildEditorOpeningSteps(projectPath, editor),
+  ...(launch === null ? [] : buildLaunchSteps(projectPath, editor, launch)),
+  ...(serverCheck && urls.length > 0 ? [{ type: "waitForServer", ...serverCheck } as const] : []),
+  ...urls.flatMap((url): WorkflowStep[] => [
+    { type: "openUrl", browser, url },
+    { type: "wait", seconds: 2 },
+  ]),
+];
+
+/**
+ * One-line description of a step, used as its comment in the compiled script
+ */
+const describeStep = (step: WorkflowStep): string => {
+  switch (step.type) {
+    case "dismissRaycast":
+      return "Exit Raycast immediately to prevent focus conflicts";
+    case "openFolder":
+      return `Open ${step.folderPath} in ${step.editor.name}`;
+    case "activateApp":
+      return `Activate ${step.appName}`;
+    case "openTerminal":
+      return `Open ${step.editor.name} integrated terminal`;
+    case "runCommand":
+      return `Run ${step.command}`;
+    case "runInTerminalApp":
+      return `Run ${step.command} in ${TERMINALS[step.terminal].name}`;
+    case "startTmuxSession":
+      return `Run ${step.command} in tmux session ${step.sessionName}`;
+    case "attachTmuxSession":
+      return `Attach to tmux session ${step.sessionName} in Terminal`;
+    case "wait":
+      return `Wait ${step.seconds}s`;
+    case "waitForServer":
+      return `Wait for ${step.url} to respond (up to ${step.timeoutSeconds}s, polled by the extension)`;
+    case "openUrl":
+      return `Open ${getBrowserName(step.browser)} on ${step.url}`;
+  }
+};
+
+/**
+ * Opens a new window or tab of a terminal app in a folder and runs a command in it
+ */
+const compileTerminalAppLaunch = (terminal: "terminal" | "iterm" | "warp", cwd: string, command: string): string => {
+  const shellCommand = escapeAppleScriptString(`cd ${shellQuote(cwd)} && ${command}`);
+
+  switch (terminal) {
+    case "terminal":
+      return `tell application "Terminal"
+  activate
+  do script "${shellCommand}"
+end tell`;
+    case "iterm":
+      return `tell application "iTerm"
+  activate
+  set newWindow to (create window with default profile)
+  tell current session of newWindow
+    write text "${shellCommand}"
+  end tell
+end tell`;
+    case "warp": {
+      // Warp has no AppleScript dictionary: open a tab in the folder through its URI scheme, then type the command
+      const openTab = `open ${shellQuote(`warp://action/new_tab?path=${encodeURIComponent(cwd)}`)}`;
+      return `do shell script "${escapeAppleScriptString(openTab)}"
+delay 1
+tell application "System Events"
+  keystroke "${escapeAppleScriptString(command)}"
+  key code 36 -- return
+end tell`;
+    }
+  }
+};
+
+/**
+ * Trims a multi-line snippet and removes its common indentation
+ */
+const dedent = (snippet: string): string => {
+  const lines = snippet.replace(/^\s*\n|\s+$/g, "").split("\n");
+  const indent = Math.min(...lines.filter((line) => line.trim()).map((line) => line.match(/^ */)![0].length));
+  return lines.map((line) => line.slice(indent)).join("\n");
+};
+
+const compileStep = (step: WorkflowStep): string => {
+  switch (step.type) {
+    case "dismissRaycast":
+      return `tell application "System Events"
+  keystroke " " using {command down} -- CMD + SPACE to minimize Raycast
+end tell`;
+    case "openFolder":
+      return `do shell script "${escapeAppleScriptString(step.editor.openFolderCommand(step.folderPath))}"`;
+    case "activateApp":
+      return `tell application "${escapeAppleScriptString(step.appName)}"
+  activate
+end tell`;
+    case "openTerminal":
+      return dedent(step.editor.openTerminalScript);
+    case "runCommand":
+      // The clipboard is restored afterwards so whatever was copied isn't lost
+      return `try
+  set savedClipboard to the clipboard
+on error
+  set savedClipboard to ""
+end try
+set the clipboard to "${escapeAppleScriptString(step.command)}"
+delay 0.2
+tell application "System Events"
+  keystroke "v" using {command down} -- paste
+  delay 0.2
+  key code 36 -- return
+end tell
+delay 0.2
+set the clipboard to savedClipboard`;
+    case "runInTerminalApp":
+      return compileTerminalAppLaunch(step.terminal, step.cwd, step.command);
+    case "startTmuxSession": {
+      const target = shellQuote(step.sessionName);
+      const tmux = shellQuote(step.tmuxPath);
+      const shellCommand = `${tmux} new-session -d -s ${target} -c ${shellQuote(step.cwd)} && ${tmux} send-keys -t ${target} ${shellQuote(step.command)} Enter`;
+      return `do shell script "${escapeAppleScriptString(shellCommand)}"`;
+    }
+    case "attachTmuxSession": {
+      const shellCommand = `${shellQuote(step.tmuxPath)} attach-session -t ${shellQuote(step.sessionName)}`;
+      return `tell application "Terminal"
+  activate
+  do script "${escapeAppleScriptString(shellCommand)}"
+end tell`;
+    }
+    case "wait":
+      return `delay ${step.seconds}`;
+    case "waitForServer":
+      return "";
+    case "openUrl":
+      return `do shell script "${escapeAppleScriptString(getOpenUrlCommand(step.browser, step.url))}"`;
+  }
+};
+
+/**
+ * Compile workflow steps to an AppleScript program
+ * Every value interpolated into a string literal is escaped, and comments are kept on a single line
+ */
+export const compileWorkflowScript = (steps: WorkflowStep[]): string => {
+  return steps
+    .map((step) => {
+      const comment = step.type === "wait" ? "" : `-- ${describeStep(step).replace(/[\r\n]+/g, " ")}\n`;
+      return `${comment}${compileStep(step)}`.trimEnd();
+    })
+    .join("\n\n")
+    .concat("\n");
+};
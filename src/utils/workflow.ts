@@ -0,0 +1,515 @@
+import { confirmAlert, environment, getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { execSync } from "child_process";
+import { readFileSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Preferences, Project } from "../types";
+import { BrowserId } from "./browsers";
+import { EditorAdapter, getEditor } from "./editors";
+import { getLastScripts, saveLastScript, trackFolderOpened } from "./history";
+import { getRunScriptCommand } from "./package-manager";
+import { checkPort, findFreePort, waitForHttpResponse } from "./port-check";
+import { detectPort } from "./port-detection";
+import { runPreflightChecks } from "./preflight";
+import { applyConfigToCommand, resolveProjectUrls } from "./project-config";
+import { recordSession } from "./sessions";
+import { DevServerLaunch, findTmux, getTmuxSessionName, hasTmuxSession } from "./terminals";
+import { buildDevWorkflowSteps, buildEditorOpeningSteps, compileWorkflowScript, WorkflowStep } from "./workflow-script";
+import { getWorkspaceRunCommand } from "./workspaces";
+
+/**
+ * Reads all scripts from package.json
+ * @param packageJsonPath - Path to package.json file
+ * @returns Script names mapped to their command lines (empty if unreadable)
+ */
+export const readPackageJsonScripts = (packageJsonPath: string): Record<string, string> => {
+  try {
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf8"));
+    const scripts = packageJson.scripts || {};
+
+    return Object.fromEntries(
+      Object.entries(scripts).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    );
+  } catch (error) {
+    console.error(`Error reading scripts from ${packageJsonPath}:`, error);
+    return {};
+  }
+};
+
+/**
+ * Execute AppleScript by writing it to a temporary file and running it with osascript
+ * This approach provides better system integration for application focus management
+ */
+export const executeAppleScript = (script: string): void => {
+  const tempScriptPath = join(tmpdir(), `raycast-workflow-${Date.now()}.scpt`);
+
+  try {
+    // Write the AppleScript to a temporary file
+    writeFileSync(tempScriptPath, script, "utf8");
+
+    // Execute using osascript for proper system integration
+    execSync(`osascript "${tempScriptPath}"`, {
+      stdio: "inherit",
+      env: { ...process.env },
+    });
+  } catch (error) {
+    throw new Error(`AppleScript execution failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  } finally {
+    // Clean up temporary file
+    try {
+      unlinkSync(tempScriptPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+};
+
+/**
+ * No-view commands (Resume Last Project) run after Raycast's window closed: their toasts can't offer actions, and the
+ * keystroke that dismisses Raycast would reopen it instead, so the editor keystrokes would land in Raycast
+ */
+const isNoViewCommand = () => environment.commandMode === "no-view";
+
+/**
+ * Drop the step dismissing Raycast when its window is already closed
+ */
+const adaptStepsToCommandMode = (steps: WorkflowStep[]): WorkflowStep[] => {
+  return isNoViewCommand() ? steps.filter((step) => step.type !== "dismissRaycast") : steps;
+};
+
+/**
+ * Execute the complete development workflow
+ * @param projectPath - Path to the project directory
+ * @param editor - Editor to open the project in
+ * @param launch - How the development server is started (null to skip starting it)
+ * @param urls - URLs to open in the browser once the server is starting (empty to skip the browser)
+ * @param browser - Browser to open the URLs in
+ * @param serverCheck - URL polled before the browser opens (null opens it right away)
+ * @param toast - Progress toast updated while waiting for the server
+ * @returns Whether the browser step ran (false when the server didn't respond in time)
+ */
+const executeCompleteWorkflow = async (
+  projectPath: string,
+  editor: EditorAdapter,
+  launch: DevServerLaunch | null,
+  urls: string[] = [],
+  browser: BrowserId = "chrome",
+  serverCheck: { url: string; timeoutSeconds: number } | null = null,
+  toast?: Toast,
+): Promise<boolean> => {
+  const steps = adaptStepsToCommandMode(buildDevWorkflowSteps(projectPath, editor, launch, urls, browser, serverCheck));
+  const waitIndex = steps.findIndex((step) => step.type === "waitForServer");
+  if (!serverCheck || waitIndex === -1) {
+    executeAppleScript(compileWorkflowScript(steps));
+    return true;
+  }
+
+  // The server check runs here, between the script that starts the server and the one that opens the browser
+  executeAppleScript(compileWorkflowScript(steps.slice(0, waitIndex)));
+  const openBrowser = () => executeAppleScript(compileWorkflowScript(steps.slice(waitIndex + 1)));
+
+  const { url, timeoutSeconds } = serverCheck;
+  if (toast) toast.title = "Waiting for dev server...";
+  const responded = await waitForHttpResponse(url, timeoutSeconds, (elapsedSeconds) => {
+    if (toast) toast.message = `${url} · ${elapsedSeconds}s of ${timeoutSeconds}s`;
+  });
+
+  if (responded) {
+    openBrowser();
+    return true;
+  }
+
+  if (toast) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Dev server didn't respond";
+    toast.message = `No response from ${url} after ${timeoutSeconds}s`;
+    if (!isNoViewCommand()) {
+      toast.primaryAction = {
+        title: "Open Anyway",
+        onAction: (failureToast) => {
+          openBrowser();
+          failureToast.hide();
+        },
+      };
+    }
+  }
+  return false;
+};
+
+/**
+ * Seconds to wait for a fresh dev server before giving up on the browser
+ */
+const DEFAULT_SERVER_TIMEOUT_SECONDS = 60;
+
+/**
+ * URL polled before the browser opens on a freshly started server, with the configured timeout
+ */
+const getServerCheck = (port: string): { url: string; timeoutSeconds: number } => {
+  const preferences = getPreferenceValues<Preferences>();
+  return {
+    url: `http://localhost:${port}`,
+    timeoutSeconds: Number(preferences.serverTimeout) || DEFAULT_SERVER_TIMEOUT_SECONDS,
+  };
+};
+
+/**
+ * Resolve the editor for a project (workflow config override, then preference)
+ */
+export const getProjectEditor = (project: Project): EditorAdapter => {
+  const preferences = getPreferenceValues<Preferences>();
+  return getEditor(project.config?.editor, preferences.editor);
+};
+
+/**
+ * Find tmux for the tmux terminal backend
+ * @throws If tmux isn't installed
+ */
+const requireTmux = (): string => {
+  const tmuxPath = findTmux();
+  if (!tmuxPath) {
+    throw new Error("tmux is not installed (install it with `brew install tmux` or pick another terminal)");
+  }
+  return tmuxPath;
+};
+
+/**
+ * Resolve how a project's dev server is started with the terminal preference
+ * With tmux, each project gets its own named session
+ */
+const getDevServerLaunch = (project: Project, command: string): DevServerLaunch => {
+  const { terminal = "editor" } = getPreferenceValues<Preferences>();
+  if (terminal === "tmux") {
+    return { terminal, tmuxPath: requireTmux(), sessionName: getTmuxSessionName(project.path), command };
+  }
+  return { terminal, command };
+};
+
+/**
+ * Build the command that runs a package.json script of a project
+ * Workspace packages are run from the monorepo root with the runner's package filter
+ */
+export const getScriptCommand = (project: Project, script: string): string => {
+  if (project.workspace) {
+    const { root, packageName } = project.workspace;
+    return getWorkspaceRunCommand(root.runner, project.packageManager, packageName, script);
+  }
+  return getRunScriptCommand(project.packageManager, script);
+};
+
+/**
+ * What starting a project runs, before the port pre-flight adjusts it
+ */
+interface WorkflowPlan {
+  editor: EditorAdapter;
+  editorPath: string; // Folder opened in the editor (the monorepo root for workspace packages)
+  scriptToRun: string | null; // package.json script, or null when a config or project kind command runs
+  baseCommand: string | null; // Command before the config's cwd and env are applied
+  detectedPort: string | null;
+}
+
+/**
+ * Resolve the command, editor folder and port of a project's workflow
+ * @param script - package.json script to run instead of the default
+ */
+const resolveWorkflowPlan = async (project: Project, script?: string): Promise<WorkflowPlan> => {
+  const { config } = project;
+  // Explicit script > config command > last script used > "dev"; non-Node projects use their kind's run command
+  const lastScript = (await getLastScripts()).get(project.path);
+  const scriptToRun = script ?? (config?.command || !project.hasPackageJson ? null : (lastScript ?? "dev"));
+
+  return {
+    editor: getProjectEditor(project),
+    // Workspace packages open the whole monorepo so the filtered command runs from its root
+    editorPath: project.workspace?.root.rootPath ?? project.path,
+    scriptToRun,
+    baseCommand: scriptToRun ? getScriptCommand(project, scriptToRun) : (config?.command ?? project.runCommand),
+    // The scanned port belongs to the default script; re-detect when another script runs
+    detectedPort:
+      script && !config?.port && project.packageJsonPath
+        ? (detectPort(project.path, project.packageJsonPath, script)?.port ?? null)
+        : project.port,
+  };
+};
+
+/**
+ * Compile the AppleScript the workflow would run, without running it
+ * The port pre-flight and the tmux session check are skipped, so the preview always shows a fresh start
+ * @param script - package.json script to run instead of the default
+ */
+export const getWorkflowScriptPreview = async (project: Project, script?: string): Promise<string> => {
+  if (project.isLeafFolder) {
+    return compileWorkflowScript(buildEditorOpeningSteps(project.path, getProjectEditor(project)));
+  }
+
+  const preferences = getPreferenceValues<Preferences>();
+  const { config } = project;
+  const { editor, editorPath, baseCommand, detectedPort } = await resolveWorkflowPlan(project, script);
+
+  const devCommand = applyConfigToCommand(baseCommand ?? "", config);
+  const port = detectedPort || preferences.defaultPort || "3010";
+  const shouldOpenBrowser = config?.openBrowser ?? detectedPort !== null;
+  const urls = shouldOpenBrowser ? resolveProjectUrls(config?.urls, port) : [];
+
+  return compileWorkflowScript(
+    buildDevWorkflowSteps(
+      editorPath,
+      editor,
+      getDevServerLaunch(project, devCommand),
+      urls,
+      preferences.browser,
+      getServerCheck(port),
+    ),
+  );
+};
+
+/**
+ * Pre-flight: asks about each issue found before starting, applying the fixes the user accepts
+ * Issues with a fix can be skipped ("Continue Anyway"); declining an issue without one cancels the workflow
+ * @returns Prefix for the dev command from the accepted fixes, or null if the workflow was cancelled
+ * @throws If a fix fails
+ */
+const resolvePreflightIssues = async (project: Project): Promise<string | null> => {
+  let commandPrefix = "";
+
+  for (const issue of await runPreflightChecks(project)) {
+    const { fix } = issue;
+
+    if (!fix) {
+      const confirmed = await confirmAlert({
+        title: issue.title,
+        message: `${issue.message} Start ${project.name} anyway?`,
+        primaryAction: { title: "Continue Anyway" },
+      });
+      if (!confirmed) return null;
+      continue;
+    }
+
+    const shouldFix = await confirmAlert({
+      title: issue.title,
+      message: `${issue.message}\n\nFix: ${fix.title}`,
+      primaryAction: { title: "Fix and Continue" },
+      dismissAction: { title: "Continue Anyway" },
+    });
+    if (!shouldFix) continue;
+
+    if (fix.type === "commandPrefix") {
+      commandPrefix += fix.prefix;
+    } else {
+      const toast = await showToast({ style: Toast.Style.Animated, title: "Fixing...", message: fix.title });
+      await fix.run();
+      toast.hide();
+    }
+  }
+  return commandPrefix;
+};
+
+/**
+ * Start the development workflow for a project
+ * @param project - Project to start
+ * @param script - package.json script to run (defaults to the config command, the last script used, then "dev";
+ * projects without a package.json run their detected command, e.g. `cargo run`)
+ */
+export const startDevWorkflow = async (project: Project, script?: string) => {
+  const preferences = getPreferenceValues<Preferences>();
+
+  if (project.configError) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Invalid workflow config",
+      message: project.configError,
+    });
+    return;
+  }
+
+  try {
+    const { config } = project;
+    const plan = await resolveWorkflowPlan(project, script);
+    const { editor, editorPath, scriptToRun, baseCommand } = plan;
+    let { detectedPort } = plan;
+    let env = config?.env;
+    let portOutcome = "";
+
+    // tmux: when the project's session still exists, attach to it instead of starting a second server
+    if (preferences.terminal === "tmux") {
+      const tmuxPath = requireTmux();
+      const sessionName = getTmuxSessionName(project.path);
+
+      if (await hasTmuxSession(tmuxPath, sessionName)) {
+        const shouldOpenBrowser = config?.openBrowser ?? detectedPort !== null;
+        await executeCompleteWorkflow(
+          editorPath,
+          editor,
+          { terminal: "tmux", tmuxPath, sessionName, command: null },
+          shouldOpenBrowser ? resolveProjectUrls(config?.urls, detectedPort || preferences.defaultPort || "3010") : [],
+          preferences.browser,
+        );
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Attached to tmux session",
+          message: `${project.name} is already running in ${sessionName}`,
+        });
+        return;
+      }
+    }
+
+    // Pre-flight: make sure the port isn't taken by another server
+    if (detectedPort) {
+      const portStatus = await checkPort(Number(detectedPort), project.path);
+
+      if (portStatus.inUse && portStatus.ownedByProject) {
+        // This project's server is already running: just bring up the editor and browser
+        const shouldOpenBrowser = config?.openBrowser ?? true;
+        await executeCompleteWorkflow(
+          editorPath,
+          editor,
+          null,
+          shouldOpenBrowser ? resolveProjectUrls(config?.urls, detectedPort) : [],
+          preferences.browser,
+        );
+
+        await recordSession({
+          projectPath: project.path,
+          projectName: project.name,
+          command: baseCommand ?? "",
+          port: detectedPort,
+          pid: portStatus.listener?.pid ?? null,
+          tmuxSession: null,
+          startedAt: Date.now(),
+        });
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Already running",
+          message: `${project.name} is already serving on port ${detectedPort}`,
+        });
+        return;
+      }
+
+      if (portStatus.inUse) {
+        const owner = portStatus.listener
+          ? `${portStatus.listener.command} (PID ${portStatus.listener.pid})`
+          : "another process";
+        const freePort = await findFreePort(Number(detectedPort));
+
+        const useFreePort =
+          freePort !== null &&
+          (await confirmAlert({
+            title: `Port ${detectedPort} is in use`,
+            message: `It is taken by ${owner}${portStatus.listener?.cwd ? ` in ${portStatus.listener.cwd}` : ""}. Start ${project.name} on port ${freePort} instead?`,
+            primaryAction: { title: `Use Port ${freePort}` },
+          }));
+
+        if (!useFreePort) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Workflow cancelled",
+            message: `Port ${detectedPort} is in use by ${owner}`,
+          });
+          return;
+        }
+
+        portOutcome = ` (port ${detectedPort} was taken by ${owner})`;
+        detectedPort = String(freePort);
+        env = { ...env, PORT: detectedPort };
+      }
+    }
+
+    // Pre-flight: env file, dependencies and Node version
+    const commandPrefix = await resolvePreflightIssues(project);
+    if (commandPrefix === null) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Workflow cancelled",
+        message: "Pre-flight issue not resolved",
+      });
+      return;
+    }
+
+    const devCommand = commandPrefix + applyConfigToCommand(baseCommand ?? "", { ...config, env });
+    const port = detectedPort || preferences.defaultPort || "3010";
+
+    // Config decides whether to open a browser; otherwise only when a port was detected
+    const shouldOpenBrowser = config?.openBrowser ?? detectedPort !== null;
+    const urls = shouldOpenBrowser ? resolveProjectUrls(config?.urls, port) : [];
+
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Starting development workflow...",
+      message: `Running ${devCommand} in ${project.name}${detectedPort ? ` on port ${detectedPort}` : ""}`,
+    });
+
+    const launch = getDevServerLaunch(project, devCommand);
+    const browserOpened = await executeCompleteWorkflow(
+      editorPath,
+      editor,
+      launch,
+      urls,
+      preferences.browser,
+      getServerCheck(port),
+      toast,
+    );
+    // The server PID isn't known until it listens; it's resolved from the port when sessions are checked
+    await recordSession({
+      projectPath: project.path,
+      projectName: project.name,
+      command: devCommand,
+      port: detectedPort,
+      pid: null,
+      tmuxSession: launch.terminal === "tmux" ? launch.sessionName : null,
+      startedAt: Date.now(),
+    });
+    if (scriptToRun) {
+      await saveLastScript(project.path, scriptToRun);
+    }
+
+    // A server that never answered leaves the failure toast (with its "Open Anyway" action outside no-view commands)
+    if (browserOpened) {
+      toast.style = Toast.Style.Success;
+      toast.title = "Development workflow started!";
+      toast.message = `${project.name} setup in progress${detectedPort ? ` on port ${detectedPort}` : ""}${portOutcome}`;
+    }
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Workflow failed",
+      message: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+};
+
+/**
+ * Open a folder in the editor without running the dev workflow (leaf folders)
+ */
+export const openFolderInEditor = async (project: Project): Promise<void> => {
+  const editor = getProjectEditor(project);
+
+  await showToast({
+    style: Toast.Style.Animated,
+    title: "Opening folder...",
+    message: `Opening ${project.name} in ${editor.name}`,
+  });
+
+  executeAppleScript(compileWorkflowScript(adaptStepsToCommandMode(buildEditorOpeningSteps(project.path, editor))));
+
+  await showToast({
+    style: Toast.Style.Success,
+    title: "Folder opened!",
+    message: `${project.name} opened in ${editor.name}`,
+  });
+};
+
+/**
+ * Open a project the way the list's primary action does: track it in the history, then start its dev workflow
+ * Leaf folders are only opened in the editor
+ * @param onHistoryChange - Called once the history was updated
+ */
+export const launchProject = async (project: Project, onHistoryChange?: () => void): Promise<void> => {
+  await trackFolderOpened(project.path, onHistoryChange);
+
+  if (project.isLeafFolder) {
+    await openFolderInEditor(project);
+  } else {
+    await startDevWorkflow(project);
+  }
+};
@@ -0,0 +1,212 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join, relative } from "path";
+import { PackageManager } from "./package-manager";
+
+/**
+ * Tool that runs scripts of a single workspace package
+ */
+export type WorkspaceRunner = PackageManager | "turbo" | "nx";
+
+export interface WorkspaceRoot {
+  rootPath: string;
+  runner: WorkspaceRunner;
+  patterns: string[]; // Package globs, "!" prefixed globs exclude
+}
+
+export interface WorkspacePackage {
+  name: string; // Package name used in filters (package.json/project.json name, else folder name)
+  path: string;
+  packageJsonPath: string | null;
+}
+
+/**
+ * Package globs nx uses when a repo doesn't declare workspaces
+ */
+const NX_DEFAULT_PATTERNS = ["apps/*", "libs/*", "packages/*"];
+
+const MAX_PACKAGE_DEPTH = 4;
+
+/**
+ * Files besides package.json that make a folder a monorepo root
+ */
+export const WORKSPACE_FILES = ["pnpm-workspace.yaml", "turbo.json", "nx.json"];
+
+const readJson = (filePath: string): Record<string, unknown> | null => {
+  try {
+    return existsSync(filePath) ? JSON.parse(readFileSync(filePath, "utf8")) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the `packages:` list of pnpm-workspace.yaml (only the flat list form is supported)
+ */
+const readPnpmWorkspacePatterns = (rootPath: string): string[] => {
+  const workspaceFile = join(rootPath, "pnpm-workspace.yaml");
+  if (!existsSync(workspaceFile)) return [];
+
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of readFileSync(workspaceFile, "utf8").split("\n")) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s+-\s*/.test(line)) {
+      patterns.push(
+        line
+          .replace(/^\s+-\s*/, "")
+          .replace(/\s+#.*$/, "")
+          .replace(/^["']|["']$/g, ""),
+      );
+    } else if (inPackages && /^\S/.test(line)) {
+      break;
+    }
+  }
+  return patterns.filter(Boolean);
+};
+
+/**
+ * Reads package globs from the `workspaces` field of package.json (array or `{ packages }` form)
+ */
+const readPackageJsonWorkspacePatterns = (packageJson: Record<string, unknown> | null): string[] => {
+  const workspaces = packageJson?.workspaces;
+  const patterns = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+  return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === "string") : [];
+};
+
+/**
+ * Detects whether a folder is the root of a monorepo
+ *
+ * Packages come from package.json `workspaces` or pnpm-workspace.yaml; turbo.json and nx.json pick the runner.
+ *
+ * @param folderPath - Folder to check
+ * @param packageManager - Package manager of the folder, used when no task runner is configured
+ * @returns Workspace root info or null if the folder doesn't declare workspaces
+ */
+export const detectWorkspaceRoot = (
+  folderPath: string,
+  packageManager: PackageManager | null,
+): WorkspaceRoot | null => {
+  const packageJson = readJson(join(folderPath, "package.json"));
+  const hasTurbo = existsSync(join(folderPath, "turbo.json"));
+  const hasNx = existsSync(join(folderPath, "nx.json"));
+
+  let patterns = [...readPackageJsonWorkspacePatterns(packageJson), ...readPnpmWorkspacePatterns(folderPath)];
+  if (patterns.length === 0 && hasNx) {
+    patterns = NX_DEFAULT_PATTERNS;
+  }
+  if (patterns.length === 0) return null;
+
+  const runner: WorkspaceRunner = hasTurbo
+    ? "turbo"
+    : hasNx
+      ? "nx"
+      : existsSync(join(folderPath, "pnpm-workspace.yaml"))
+        ? "pnpm"
+        : (packageManager ?? "npm");
+
+  return { rootPath: folderPath, runner, patterns };
+};
+
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .replace(/^\.\//, "")
+    .replace(/\/$/, "")
+    .split("/")
+    .map((segment) => (segment === "**" ? ".*" : segment.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*")))
+    .join("/")
+    .replace(/\.\*\//g, "(?:.*/)?");
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Lists the packages of a workspace root, sorted by name
+ */
+export const listWorkspacePackages = (root: WorkspaceRoot): WorkspacePackage[] => {
+  const includes = root.patterns.filter((pattern) => !pattern.startsWith("!")).map(globToRegExp);
+  const excludes = root.patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => globToRegExp(pattern.slice(1)));
+  const packages: WorkspacePackage[] = [];
+
+  const walk = (folderPath: string, depth: number) => {
+    if (depth > MAX_PACKAGE_DEPTH) return;
+
+    let entries;
+    try {
+      entries = readdirSync(folderPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".") || entry.name === "node_modules") continue;
+
+      const packagePath = join(folderPath, entry.name);
+      const relativePath = relative(root.rootPath, packagePath);
+      const isMatch =
+        includes.some((regex) => regex.test(relativePath)) && !excludes.some((regex) => regex.test(relativePath));
+
+      const packageJsonPath = join(packagePath, "package.json");
+      const manifest = readJson(packageJsonPath) ?? readJson(join(packagePath, "project.json"));
+      if (isMatch && manifest) {
+        packages.push({
+          name: typeof manifest.name === "string" ? manifest.name : basename(packagePath),
+          path: packagePath,
+          packageJsonPath: existsSync(packageJsonPath) ? packageJsonPath : null,
+        });
+        continue;
+      }
+
+      walk(packagePath, depth + 1);
+    }
+  };
+
+  walk(root.rootPath, 1);
+  return packages.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Command that runs binaries installed in the repo (turbo, nx)
+ */
+const getExecCommand = (packageManager: PackageManager | null): string => {
+  switch (packageManager) {
+    case "pnpm":
+      return "pnpm exec";
+    case "yarn":
+      return "yarn";
+    case "bun":
+      return "bunx";
+    default:
+      return "npx";
+  }
+};
+
+/**
+ * Builds the command that runs a script of a single workspace package from the repo root
+ * @example getWorkspaceRunCommand("pnpm", "pnpm", "web", "dev") // pnpm --filter web dev
+ * @example getWorkspaceRunCommand("turbo", "pnpm", "web", "dev") // pnpm exec turbo run dev --filter=web
+ */
+export const getWorkspaceRunCommand = (
+  runner: WorkspaceRunner,
+  packageManager: PackageManager | null,
+  packageName: string,
+  script: string,
+): string => {
+  switch (runner) {
+    case "turbo":
+      return `${getExecCommand(packageManager)} turbo run ${script} --filter=${packageName}`;
+    case "nx":
+      return `${getExecCommand(packageManager)} nx run ${packageName}:${script}`;
+    case "pnpm":
+      return `pnpm --filter ${packageName} ${script}`;
+    case "yarn":
+      return `yarn workspace ${packageName} ${script}`;
+    case "bun":
+      return `bun run --filter ${packageName} ${script}`;
+    default:
+      return `npm run ${script} --workspace=${packageName}`;
+  }
+};